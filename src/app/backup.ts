@@ -1,13 +1,17 @@
 import fs from 'fs'
 import path from 'path'
-import zlib from 'zlib'
 import moment from 'moment'
 import stream from 'stream'
-import { exec } from 'child_process'
-import { createCryptStream, mkdirp } from '../lib/utils'
+import { execFile } from 'child_process'
+import { filterTables, mkdirp } from '../lib/utils'
+import { createBackupWriter, IBackupMeta, IBinlogPosition } from '../lib/bakfile'
 import { dbu } from '../lib/mysql'
 import { logger } from '../lib/logger'
-import { BACKUP_FILE_TAG, MAX_BUFFER } from '../lib/const'
+import { BACKUP_FILE_TAG } from '../lib/const'
+import { spawnClient } from '../lib/client'
+import { IRetentionPolicy, pruneBackups } from './catalog'
+import { dumpDatabase, DUMP_DRIVER_OPTION, tableStats } from '../lib/dumper'
+import { formatBytes, IProgress, Progress } from '../lib/progress'
 
 interface IFilenameGeneratorOption {
 	/** 数据库名称 */
@@ -21,16 +25,44 @@ export interface IBackupOption {
 	/** 
 	 * 文件名生成器
 	 * 
-	 * 使用此选项，请保证文件名按照一定的规则升序排列，否则在恢复时可能会出现问题
+	 * 恢复时按照备份文件中记录的备份时间选择文件，因此文件名不需要按照规则排列
 	 * @param option 生成器选项
 	 */
 	filenameGenerator?: (option: IFilenameGeneratorOption) => string
-	/** 备份文件加密密码 */
+	/** 备份文件加密密码，给定时使用AES-256-GCM加密 */
 	fileEncryptPassword?: string | Buffer
 	/** 备份目录 */
 	backupDir: string
 	/** 备份文件标记 */
 	backupFileTag?: string | Buffer
+	/** 备份保留策略，备份完成后自动删除不需要保留的备份 */
+	retention?: IRetentionPolicy
+	/** 要备份的表，支持*和?通配符，默认备份全部表 */
+	tables?: Array<string>
+	/** 不备份的表，支持*和?通配符 */
+	excludeTables?: Array<string>
+	/** 只备份表结构 */
+	schemaOnly?: boolean
+	/** 只备份数据 */
+	dataOnly?: boolean
+	/** 按表设置数据过滤条件，键为表名称，值为where条件 */
+	where?: { [table: string]: string }
+	/** 备份引擎，external表示使用mysqldump命令，builtin表示使用内置的备份程序（不需要安装mysqldump），默认external */
+	engine?: 'external' | 'builtin'
+	/** 
+	 * 在一致性快照中备份，并在备份文件中记录备份时的二进制日志位置，用于按时间点恢复
+	 * 
+	 * 需要数据库开启二进制日志，备份用户需要RELOAD及REPLICATION CLIENT权限，使用mysqldump备份时不能与where同时使用
+	 */
+	binlog?: boolean
+	/** 
+	 * 备份前记录各表的行数及校验和（CHECKSUM TABLE），用于verifyBackup校验备份，不记录有数据过滤条件的表
+	 * 
+	 * 备份过程中数据库被修改时记录的值与备份内容不一致
+	 */
+	stats?: boolean
+	/** 进度回调，备份过程中定期调用 */
+	onProgress?: (progress: IProgress) => void
 	/** 数据库配置 */
 	databaseConfig: dbu.IMysqlConnOption & {
 		/** 数据库名 */
@@ -38,11 +70,152 @@ export interface IBackupOption {
 	}
 }
 
+/** 备份结果 */
+export interface IBackupSummary {
+	/** 备份文件路径 */
+	file: string
+	/** 备份文件大小 */
+	size: number
+	/** 备份的SQL数据大小 */
+	sqlSize: number
+	/** 备份用时（毫秒） */
+	duration: number
+	/** 备份的表及视图 */
+	tables: Array<string>
+}
+
+//mysqldump输出中查找二进制日志位置的最大长度，位置信息位于表数据之前
+const MAX_BINLOG_SCAN_LENGTH = 16 * 1024
+
+/**
+ * 创建mysqldump输出扫描器，从--source-data=2输出的注释中获取二进制日志位置
+ * @param callback 找到位置或者确定没有位置信息时回调，只回调一次
+ */
+function createBinlogScanner(callback: (binlog: IBinlogPosition | undefined) => void) {
+	let text = ''
+	let finished = false
+	return (chunk: Buffer) => {
+		if (finished) return
+		text += chunk
+		const pos = /(?:MASTER|SOURCE)_LOG_FILE='([^']+)',\s*(?:MASTER|SOURCE)_LOG_POS=(\d+)/.exec(text)
+		if (!pos && text.length < MAX_BINLOG_SCAN_LENGTH && !/^-- (Table structure|Dumping data) for/m.test(text)) return
+		finished = true
+		if (!pos) return callback(undefined)
+		//开启GTID时，GTID_PURGED位于位置信息之前，可能跨行
+		const gtid = /GTID_PURGED=(?:\/\*!80000 '\+'\*\/ )?'([^']*)'/.exec(text)
+		callback({ file: pos[1], position: parseInt(pos[2]), gtid: gtid ? gtid[1].replace(/\s+/g, '') : undefined })
+	}
+}
+
+/**
+ * 获取mysqldump记录二进制日志位置的参数，8.0.26开始使用--source-data
+ * @param version mysqldump版本
+ */
+function sourceDataArg(version: string | null) {
+	const match = /(?:Distrib|Ver) (\d+)\.(\d+)\.(\d+)/.exec(version || '')
+	if (!match || /MariaDB/i.test(version!)) return '--master-data=2'
+	const [major, minor, patch] = match.slice(1).map(n => parseInt(n))
+	return (major > 8 || (major == 8 && (minor > 0 || patch >= 26))) ? '--source-data=2' : '--master-data=2'
+}
+
+/**
+ * 执行mysqldump并将输出写入给定的流，写入完成后不会关闭流
+ * @param option 备份选项
+ * @param args mysqldump参数（不包含连接参数）
+ * @param output 输出流
+ * @param scan 输出数据扫描函数
+ */
+function runDump(option: IBackupOption, args: Array<string>, output: NodeJS.WritableStream, scan?: (chunk: Buffer) => void) {
+	return new Promise<void>((resolve, reject) => {
+		const cp = spawnClient('mysqldump', option.databaseConfig, ['--hex-blob', ...args])
+		let stderr = ''
+		cp.stderr!.on('data', data => stderr += data)
+		if (scan) cp.stdout!.on('data', scan)
+		cp.stdout!.pipe(output, { end: false })
+		cp.once('error', err => reject(new Error(`mysqldump: ${err.message}`)))
+		cp.once('close', code => (code == 0) ? resolve() : reject(new Error(`mysqldump exited with code ${code}: ${stderr.trim()}`)))
+	})
+}
+
+/**
+ * 使用mysqldump备份，没有过滤条件的表一次备份，有过滤条件的表单独备份
+ * 
+ * 记录二进制日志位置时，使用第一次备份的位置
+ * @param option 备份选项
+ * @param allTables 数据库中的全部表及视图
+ * @param tables 要备份的表及视图
+ * @param output 输出流
+ * @param binlog 二进制日志位置回调，记录二进制日志位置时使用
+ */
+async function dumpExternal(option: IBackupOption, allTables: Array<string>, tables: Array<string>, output: NodeJS.WritableStream, binlog?: (binlog: IBinlogPosition | undefined) => void) {
+	const database = option.databaseConfig.database
+	const where = option.where || {}
+	//触发器随表结构导出
+	const modeArgs = option.dataOnly ? ['--no-create-info', '--skip-triggers'] : ['--triggers']
+	if (option.schemaOnly) modeArgs.push('--no-data')
+	if (binlog) modeArgs.push('--single-transaction', sourceDataArg(await dumpVersion()))
+	const invocations: Array<Array<string>> = []
+	const plainTables = tables.filter(t => where[t] === undefined)
+	if (tables.length == allTables.length && plainTables.length == tables.length) invocations.push([...modeArgs, database])
+	else if (plainTables.length) {
+		if (option.tables) invocations.push([...modeArgs, database, ...plainTables])
+		else invocations.push([...modeArgs, ...allTables.filter(t => !plainTables.includes(t)).map(t => `--ignore-table=${database}.${t}`), database])
+	}
+	Object.keys(where).forEach(t => invocations.push([...modeArgs, `--where=${where[t]}`, database, t]))
+	//存储过程、函数及事件属于数据库，只在第一次备份时导出
+	if (!option.dataOnly && invocations.length) invocations[0].unshift('--routines', '--events')
+	for (let i = 0; i < invocations.length; i++) await runDump(option, invocations[i], output, (i == 0 && binlog) ? createBinlogScanner(binlog) : undefined)
+}
+
+/**
+ * 使用内置备份程序备份
+ * @param option 备份选项
+ * @param tables 要备份的表
+ * @param views 要备份的视图
+ * @param output 输出流
+ * @param binlog 二进制日志位置回调，记录二进制日志位置时使用
+ */
+async function dumpBuiltin(option: IBackupOption, tables: Array<string>, views: Array<string>, output: stream.Writable, binlog?: (binlog: IBinlogPosition | undefined) => void) {
+	const conn = dbu.getConnection(option.databaseConfig, DUMP_DRIVER_OPTION)
+	try {
+		//在全局读锁下开启一致性快照并获取二进制日志位置，与mysqldump --single-transaction --source-data相同
+		if (binlog) {
+			await conn.exec('set session transaction isolation level repeatable read')
+			await conn.exec('flush tables with read lock')
+			try {
+				await conn.exec('start transaction with consistent snapshot')
+				const [status] = await conn.query('show master status').catch(() => conn.query('show binary log status'))
+				const [{ gtid }] = await conn.query<{ gtid: string | null }>('select @@global.gtid_executed as gtid').catch(() => [{ gtid: null }])
+				binlog(status ? { file: status.File, position: parseInt(status.Position), gtid: gtid ? gtid.replace(/\s+/g, '') : undefined } : undefined)
+			} finally {
+				await conn.exec('unlock tables')
+			}
+		}
+		await dumpDatabase(conn, {
+			database: option.databaseConfig.database,
+			tables,
+			views,
+			schemaOnly: option.schemaOnly,
+			dataOnly: option.dataOnly,
+			where: option.where,
+		}, output)
+		if (binlog) await conn.exec('commit')
+	} finally {
+		conn.close()
+	}
+}
+
+//获取mysqldump版本
+function dumpVersion() {
+	return new Promise<string | null>(resolve => execFile('mysqldump', ['--version'], (err, stdout) => resolve(err ? null : stdout.trim())))
+}
+
 /**
  * 备份数据库
  * @param option 备份选项
+ * @returns 备份结果，数据库不存在时返回null
  */
-export async function backup(option: IBackupOption) {
+export async function backup(option: IBackupOption): Promise<IBackupSummary | null> {
 	let conn: ReturnType<typeof dbu.getConnection> | undefined
 	try {
 		if (!option.backupFileTag) option.backupFileTag = BACKUP_FILE_TAG
@@ -54,16 +227,32 @@ export async function backup(option: IBackupOption) {
 		else if (!fs.statSync(dirname).isDirectory()) throw new Error(`backup directory ${dirname} is not directory`)
 		//连接数据库
 		conn = dbu.getConnection(option.databaseConfig)
-		conn.use(option.databaseConfig.database)
 		//检测是否能够备份
 		const dbs = await conn.query('show databases')
+		const exists = dbs.some(dbi => dbi.Database == option.databaseConfig.database)
+		//获取数据库版本
+		let ver: number | null = null
+		let allTables: Array<string> = []
+		let views: Array<string> = []
+		let dataSizes: { [table: string]: number } = {}
+		if (exists) {
+			await conn.use(option.databaseConfig.database)
+			const [head] = await conn.query<{ ver: number }>('select ver from _ver order by ver desc limit 1').catch(() => [])
+			if (head) ver = head.ver
+			const res = await conn.query('show full tables')
+			allTables = res.map(row => Object.values(row)[0] as string)
+			views = res.filter(row => row.Table_type == 'VIEW').map(row => Object.values(row)[0] as string)
+			//表数据大小，用于估计剩余时间
+			const sizes = await conn.query('select TABLE_NAME, DATA_LENGTH from information_schema.TABLES where TABLE_SCHEMA = ?', option.databaseConfig.database)
+			sizes.forEach(row => dataSizes[row.TABLE_NAME] = parseInt(row.DATA_LENGTH) || 0)
+		}
+		const [{ version: serverVersion }] = await conn.query<{ version: string }>('select version() as version')
 		//生成备份名
-		let filename = `${moment().format('YYYYMMDD-HHmmss')}.bak`
+		const now = moment()
+		let filename = `${now.format('YYYYMMDD-HHmmss')}.bak`
 		if (option.filenameGenerator) {
-			const res = await conn.query('select * from _ver order by ver desc limit 1')
-			const ver = res[0].ver
 			filename = option.filenameGenerator({
-				version: ver,
+				version: ver || 0,
 				dbname: option.databaseConfig.database
 			})
 		}
@@ -71,30 +260,85 @@ export async function backup(option: IBackupOption) {
 		conn.close()
 		conn = undefined
 		//如果数据库不存在则不备份
-		if (!dbs.some(dbi => dbi.Database == option.databaseConfig.database)) logger.warn('backup', 'nothing to be done')
+		if (!exists) {
+			logger.warn('backup', 'nothing to be done')
+			return null
+		}
 		//开始备份数据库
 		else {
-			await new Promise<void>(resolve => {
-				//创建文件输出流
-				const ws = fs.createWriteStream(outfile)
-				ws.write(option.backupFileTag)
-				const gzip = zlib.createGzip()
-				//开始备份
-				const cmd = [
-					'mysqldump --hex-blob',
-					...option.databaseConfig.username ? [`-u${option.databaseConfig.username}`] : [],
-					...option.databaseConfig.password ? [`-p${option.databaseConfig.password}`] : [],
-					`-h"${option.databaseConfig.host || 'localhost'}" -P${option.databaseConfig.port || 3306} "${option.databaseConfig.database}"`,
-				].join(' ')
-				const cp = exec(cmd, { maxBuffer: MAX_BUFFER })
-				cp.stdout!.pipe(createCryptStream(option.fileEncryptPassword)).pipe(gzip).pipe(ws)
-				ws.on('close', () => resolve())
+			if (option.schemaOnly && option.dataOnly) throw new Error(`schemaOnly and dataOnly cannot be used together`)
+			//mysqldump单独备份有过滤条件的表，不在记录二进制日志位置的快照中
+			if (option.binlog && option.engine != 'builtin' && option.where && Object.keys(option.where).length) throw new Error(`binlog and where cannot be used together with external engine, use builtin engine instead`)
+			const database = option.databaseConfig.database
+			//要备份的表
+			const where = option.where || {}
+			const partial = !!(option.tables || option.excludeTables || Object.keys(where).length)
+			const tables = partial ? filterTables(allTables, option.tables, option.excludeTables) : allTables
+			if (partial && !tables.length) throw new Error(`no table matched`)
+			Object.keys(where).forEach(t => {
+				if (!tables.includes(t)) throw new Error(`table ${t} in where option is not backed up`)
+			})
+			const meta: IBackupMeta = {
+				database,
+				version: ver,
+				time: now.toISOString(),
+				serverVersion,
+				dumpVersion: (option.engine == 'builtin') ? 'mysql-version builtin' : await dumpVersion(),
+				content: option.schemaOnly ? 'schema' : option.dataOnly ? 'data' : 'all',
+				tables: partial ? tables : undefined,
+				filtered: Object.keys(where).length ? Object.keys(where) : undefined,
+			}
+			//记录各表统计信息
+			if (option.stats && !option.schemaOnly) {
+				const statsConn = dbu.getConnection(option.databaseConfig, DUMP_DRIVER_OPTION)
+				try {
+					meta.stats = await tableStats(statsConn, database, tables.filter(t => !views.includes(t) && where[t] === undefined))
+				} finally {
+					statsConn.close()
+				}
+			}
+			//记录二进制日志位置时，获取到位置之后才能确定文件头
+			let setBinlog = (binlog: IBinlogPosition | undefined) => { }
+			const metaPromise = option.binlog ? new Promise<IBackupMeta>(resolve => setBinlog = binlog => {
+				setBinlog = () => { }
+				resolve({ ...meta, binlog })
+			}) : meta
+			const binlog = option.binlog ? (binlog: IBinlogPosition | undefined) => setBinlog(binlog) : undefined
+			//备份进度，按表数据大小估计SQL数据大小
+			const progress = new Progress('backup', {
+				total: option.schemaOnly ? undefined : tables.reduce((sum, t) => sum + (dataSizes[t] || 0), 0),
+				totalOf: 'sql',
+				onProgress: option.onProgress,
 			})
-			logger.success('backup', `backup database to ${outfile}`)
+			//创建文件输出流，并开始备份
+			const writer = createBackupWriter(outfile, Buffer.from(option.backupFileTag!), metaPromise, option.fileEncryptPassword, bytes => progress.addFileBytes(bytes))
+			const output = progress.meter()
+			output.pipe(writer.input)
+			try {
+				if (option.engine == 'builtin') await dumpBuiltin(option, tables.filter(t => !views.includes(t)), tables.filter(t => views.includes(t)), output, binlog)
+				else await dumpExternal(option, allTables, tables, output, binlog)
+				setBinlog(undefined)
+				output.end()
+				await writer.done
+				if (option.binlog && !(await metaPromise).binlog) logger.warn('backup', 'binlog position not found, is binary log enabled?')
+			} catch (err) {
+				//备份失败时删除不完整的备份文件
+				progress.finish()
+				setBinlog(undefined)
+				output.end()
+				await writer.done.catch(() => { })
+				if (fs.existsSync(outfile)) fs.unlinkSync(outfile)
+				throw err
+			}
+			const { sqlBytes, elapsed } = progress.finish()
+			const size = fs.statSync(outfile).size
+			logger.success('backup', `backup database to ${outfile} (${formatBytes(size)}, ${(elapsed / 1000).toFixed(1)}s)`)
+			if (option.retention) await pruneBackups({ backupDir: dirname, backupFileTag: option.backupFileTag, database: option.databaseConfig.database }, option.retention)
+			return { file: outfile, size, sqlSize: sqlBytes, duration: elapsed, tables }
 		}
 	} catch (err) {
 		if (conn) conn.close()
 		logger.error('backup', err.message)
-		throw new err
+		throw err
 	}
 }
\ No newline at end of file
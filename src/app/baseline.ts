@@ -0,0 +1,69 @@
+import { dbu } from '../lib/mysql'
+import { logger } from '../lib/logger'
+import { checksumOf, createVersionTable, hasVersionTable, loadVersions } from '../lib/version'
+
+/** 版本基线选项 */
+export interface IBaselineOption {
+	/** 版本文件存放位置 */
+	versionDir: string
+	/** 数据库已经具有的版本，此版本及更低的版本都会被标记为已升级 */
+	version: string | number
+	/** 等待其他进程升级完成的超时时间（秒），默认60秒 */
+	lockTimeout?: number
+	/** 数据库配置 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/**
+ * 为已有的数据库建立版本基线：在数据库中创建版本表，并将给定版本及更低的版本标记为已升级，不执行版本程序
+ *
+ * 用于接管不是由本工具创建的数据库，之后使用update升级更高的版本
+ * @param option 基线选项
+ * @returns 标记为已升级的版本
+ */
+export async function baseline(option: IBaselineOption) {
+	let conn: ReturnType<typeof dbu.getConnection> | undefined
+	let lockName: string | undefined
+	try {
+		const versions = loadVersions(option.versionDir)
+		const dest = parseFloat(option.version + '')
+		if (!versions.some(v => v.ver == dest)) throw new Error(`unknown version ${option.version}`)
+		const conf = option.databaseConfig
+		conn = dbu.getConnection(conf)
+		//与升级使用同一个锁，防止同时升级
+		const lockTimeout = option.lockTimeout === undefined ? 60 : option.lockTimeout
+		const lockKey = `mysql-version:${conf.database}`
+		if (!await conn.lock(lockKey, lockTimeout)) {
+			const host = await conn.lockHolder(lockKey)
+			throw new Error(`another migration is running on host ${host || 'unknown'}, wait lock timeout after ${lockTimeout}s`)
+		}
+		lockName = lockKey
+		const dbs = await conn.query('show databases')
+		if (!dbs.some(di => di.Database == conf.database)) throw new Error(`database ${conf.database} not exists, use update to create it`)
+		//已有版本记录的数据库不能再建立基线
+		if (await hasVersionTable(conn, conf.database)) {
+			const [{ count }] = await conn.query('select count(*) as count from ??.??', conf.database, '_ver')
+			if (count > 0) throw new Error(`database ${conf.database} already has applied versions, use update instead`)
+		}
+		else await createVersionTable(conn, conf.database)
+		//标记版本
+		const applied = versions.filter(v => v.ver <= dest)
+		for (let i = 0; i < applied.length; i++) {
+			const { ver, program } = applied[i]
+			await conn.exec('insert into ??.?? set ?', conf.database, '_ver', { ver, ctime: new Date(), checksum: checksumOf(program) })
+		}
+		logger.success('baseline', `database ${conf.database} baselined at version ${dest}, ${applied.length} versions marked as applied`)
+		return applied.map(v => v.ver)
+	} catch (err) {
+		logger.error('baseline', err.message)
+		throw err
+	} finally {
+		if (conn) {
+			if (lockName) await conn.unlock(lockName).catch(() => { })
+			conn.close()
+		}
+	}
+}
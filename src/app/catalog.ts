@@ -0,0 +1,114 @@
+import fs from 'fs'
+import path from 'path'
+import moment from 'moment'
+import { logger } from '../lib/logger'
+import { inspectBackup, IBackupInspection } from './inspect'
+
+/** 备份目录选项 */
+export interface ICatalogOption {
+	/** 备份目录 */
+	backupDir: string
+	/** 备份文件标记 */
+	backupFileTag?: string | Buffer
+	/** 只处理此数据库的备份，多个数据库共用备份目录时需要给定，旧版备份文件没有记录数据库名称，总是包含在内 */
+	database?: string
+}
+
+/** 备份文件选择条件 */
+export interface IBackupSelector {
+	/** 选择此时间（包含）之前的最新备份 */
+	before?: Date | string
+	/** 选择此数据库版本的最新备份 */
+	version?: number
+}
+
+/** 备份保留策略，同时给定多个条件时，满足任一条件的备份都会被保留 */
+export interface IRetentionPolicy {
+	/** 保留最近的N个备份 */
+	keepLast?: number
+	/** 保留最近N天中每天最新的一个备份 */
+	keepDaily?: number
+	/** 保留最近N周中每周最新的一个备份 */
+	keepWeekly?: number
+	/** 保留最近N个月中每月最新的一个备份 */
+	keepMonthly?: number
+}
+
+/** 备份目录中的备份文件 */
+export interface IBackupCatalogItem extends IBackupInspection {
+	/** 备份时间，旧版文件使用文件修改时间 */
+	date: Date
+}
+
+/**
+ * 列出备份目录中的备份文件，按备份时间从新到旧排列，非备份文件会被忽略
+ * @param option 备份目录选项
+ */
+export async function listBackups(option: ICatalogOption) {
+	const dir = path.resolve(process.cwd(), option.backupDir)
+	if (!fs.existsSync(dir)) return []
+	const items: Array<IBackupCatalogItem> = []
+	const files = fs.readdirSync(dir)
+	for (let i = 0; i < files.length; i++) {
+		const file = path.join(dir, files[i])
+		if (!fs.statSync(file).isFile()) continue
+		const info = await inspectBackup(file, { backupFileTag: option.backupFileTag }).catch(() => null)
+		if (!info) continue
+		//旧版备份文件没有记录数据库名称，无法区分时视为同一数据库
+		if (option.database !== undefined && info.database && info.database != option.database) continue
+		items.push({ ...info, date: info.time ? new Date(info.time) : fs.statSync(file).mtime })
+	}
+	return items.sort((a, b) => b.date.getTime() - a.date.getTime())
+}
+
+/**
+ * 按照条件选择备份文件，不给定条件时选择最新的备份，没有满足条件的备份时返回null
+ * @param option 备份目录选项
+ * @param selector 选择条件
+ */
+export async function findBackup(option: ICatalogOption, selector?: IBackupSelector) {
+	const { before, version } = selector || {}
+	const items = await listBackups(option)
+	const [item] = items.filter(item => {
+		if (before !== undefined && moment(item.date).isAfter(moment(before))) return false
+		if (version !== undefined && (item.version === undefined || item.version === null || item.version.toFixed(2) != version.toFixed(2))) return false
+		return true
+	})
+	return item || null
+}
+
+/**
+ * 按照保留策略删除备份文件，没有给定任何保留条件时不删除，最新的备份总是保留
+ * @param option 备份目录选项
+ * @param policy 保留策略
+ * @returns 被删除的文件
+ */
+export async function pruneBackups(option: ICatalogOption, policy: IRetentionPolicy) {
+	const { keepLast, keepDaily, keepWeekly, keepMonthly } = policy
+	if (keepLast === undefined && keepDaily === undefined && keepWeekly === undefined && keepMonthly === undefined) return []
+	const items = await listBackups(option)
+	const keep = new Set<string>()
+	//保留最近的N个，至少保留最新的一个
+	items.slice(0, Math.max(keepLast || 0, 1)).forEach(item => keep.add(item.file))
+	//按周期保留，每个周期保留最新的一个
+	const keepPeriod = (count: number | undefined, format: string) => {
+		if (!count) return
+		const periods = new Set<string>()
+		items.forEach(item => {
+			const period = moment(item.date).format(format)
+			if (periods.has(period) || periods.size >= count) return
+			periods.add(period)
+			keep.add(item.file)
+		})
+	}
+	keepPeriod(keepDaily, 'YYYY-MM-DD')
+	keepPeriod(keepWeekly, 'GGGG-WW')
+	keepPeriod(keepMonthly, 'YYYY-MM')
+	//删除其他备份
+	const removed = items.filter(item => !keep.has(item.file)).map(item => item.file)
+	removed.forEach(file => {
+		fs.unlinkSync(file)
+		logger.info('backup', `remove expired backup ${file}`)
+	})
+	return removed
+}
@@ -0,0 +1,570 @@
+import fs from 'fs'
+import path from 'path'
+import mysql from 'mysql'
+import moment from 'moment'
+import { dbu } from '../lib/mysql'
+import { logger } from '../lib/logger'
+import { ICheckSchema, IColumnSchema, IIndexSchema, ILinkSchema, ITableSchema, readSchema, sortByDependency } from '../lib/schema'
+import { buildable, columnArgs, columnBuildable, columnOption, createSqlWithoutLinks, indexArgs, indexBuildable, indexOption, isRowFormat, linkCode, linkOption, quote, tableCode, versionCode } from '../lib/codegen'
+import { keyName } from '../lib/utils'
+import { update } from './update'
+
+type MyConnection = ReturnType<typeof dbu.getConnection>
+
+/** 表结构修改 */
+export interface ISchemaChange {
+	/** 表名称 */
+	table: string
+	/** 修改说明 */
+	description: string
+	/** 版本程序中的代码 */
+	code: Array<string>
+	/** 执行修改，连接需要已经选择了数据库 */
+	apply: (conn: MyConnection) => Promise<void>
+}
+
+/** 表结构比较选项 */
+export interface IDiffOption {
+	/** 期望的表结构，使用dbu.define定义 */
+	tables: Array<ReturnType<typeof dbu.define>>
+	/** 是否删除数据库中存在但没有定义的表和列，默认false */
+	drop?: boolean
+	/** 数据库配置 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/** 表结构漂移检查选项 */
+export interface IDriftOption {
+	/** 版本文件存放位置 */
+	versionDir: string
+	/** 数据库配置，临时数据库也创建在此服务器上 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/** 表结构漂移检查报告 */
+export interface IDriftReport {
+	/** 检查的数据库 */
+	database: string
+	/** 数据库当前版本 */
+	version: number
+	/** 执行版本程序使用的临时数据库 */
+	scratchDatabase: string
+	/** 是否与版本程序生成的表结构一致 */
+	passed: boolean
+	/** 使数据库与版本程序生成的表结构一致所需的修改 */
+	changes: Array<ISchemaChange>
+}
+
+//整数类型，比较时忽略显示宽度
+const INTEGER_TYPES = ['tinyint', 'smallint', 'mediumint', 'int', 'integer', 'bigint']
+
+//未给定长度时数据库使用的默认长度
+const DEFAULT_LENGTHS: { [type: string]: string } = { decimal: '10,0', char: '1', binary: '1', bit: '1' }
+
+/**
+ * 还原mysql.escape转义的字符串
+ * @param str 转义后的字符串（包括引号）
+ */
+function unescapeString(str: string) {
+	const chars: { [c: string]: string } = { '0': '\0', b: '\b', t: '\t', n: '\n', r: '\r', Z: '\x1a' }
+	return str.slice(1, -1).replace(/\\(.)/gs, (_, c) => chars[c] || c).replace(/''/g, '\'')
+}
+
+/**
+ * 解析TableMaker中的默认值（SQL表达式）
+ * @param value 默认值
+ */
+function parseMakerDefault(value: string | undefined) {
+	if (value === undefined || /^null$/i.test(value)) return { default: null, defaultExpr: false }
+	if (/^'.*'$/s.test(value)) return { default: unescapeString(value), defaultExpr: false }
+	if (/^(true|false)$/i.test(value)) return { default: /^true$/i.test(value) ? '1' : '0', defaultExpr: false }
+	if (/^-?\d+(\.\d+)?$/.test(value)) return { default: value, defaultExpr: false }
+	return { default: value, defaultExpr: true }
+}
+
+/**
+ * 将dbu.define定义的表转换成表结构
+ * @param maker 表定义
+ */
+function schemaOf(maker: ReturnType<typeof dbu.define>): ITableSchema {
+	const def = maker.definition()
+	if (def.options.like) throw new Error(`table ${def.name} is defined like ${def.options.like}, it cannot be compared`)
+	const columns = def.columns.map(col => ({
+		name: col.name,
+		type: col.type,
+		//与information_schema.COLUMNS中的COLUMN_TYPE格式相同
+		length: col.values.length ? col.values.map(v => `'${v.replace(/'/g, '\'\'')}'`).join(',') : col.length,
+		//zerofill的列总是无符号
+		modifiers: [(col.unsigned || col.zerofill) ? 'unsigned' : '', col.zerofill ? 'zerofill' : ''].filter(s => !!s).join(' '),
+		//主键列总是非空
+		required: col.required || def.primaries.includes(col.name),
+		inc: col.inc,
+		...parseMakerDefault(col.default),
+		comment: col.comment,
+		//只给定字符集时无法确定排序规则，不比较
+		collation: col.collation || null,
+		extra: col.onUpdateNow ? `on update CURRENT_TIMESTAMP${/^\d$/.test(col.length) ? `(${col.length})` : ''}` : '',
+		generated: col.generated || null,
+	} as IColumnSchema))
+	const index = (type: IIndexSchema['type'], columns: Array<string | { name: string, length?: number, desc?: boolean }>, option?: { name?: string, ngram?: boolean, invisible?: boolean }): IIndexSchema => {
+		const names = columns.map(c => (typeof c == 'string') ? c : c.name)
+		return {
+			name: (type == 'primary') ? 'PRIMARY' : (option && option.name) || keyName(names),
+			type,
+			columns: names,
+			subParts: columns.map(c => (typeof c != 'string' && c.length) ? c.length : null),
+			desc: columns.map(c => typeof c != 'string' && !!c.desc),
+			ngram: !!(option && option.ngram) && type == 'fulltext',
+			invisible: !!(option && option.invisible),
+		}
+	}
+	return {
+		name: def.name,
+		comment: def.comment,
+		//未指定的表选项不比较
+		engine: def.options.engine || '',
+		charset: def.options.charset || '',
+		collation: def.options.collation || '',
+		rowFormat: def.options.rowFormat || null,
+		columns,
+		indexes: [
+			...def.primaries.length ? [index('primary', def.primaries)] : [],
+			...def.indexes.map(idx => index(idx.type, idx.columns, idx)),
+		],
+		//未指定外键名称时不比较名称
+		links: def.links.map(link => ({ name: link.constraint || '', columns: link.columns, table: link.table, refColumns: link.refColumns, update: link.update!, delete: link.delete! })),
+		checks: def.checks,
+		createSql: '',
+	}
+}
+
+/**
+ * 规范化表达式，用于比较默认值、生成列及检查约束，数据库会改写表达式（添加括号、引号及字符集）
+ * @param expr 表达式
+ */
+function normalizeExpr(expr: string) {
+	return expr.toLowerCase().replace(/_(utf8mb4|utf8mb3|utf8|latin1|binary)'/g, '\'').replace(/[`\s()]/g, '').replace(/^(now|current_timestamp|localtime|localtimestamp)/, 'current_timestamp')
+}
+
+/**
+ * 生成默认值表达式的SQL，除时间函数外的表达式需要使用括号
+ * @param expr 表达式
+ */
+function exprSql(expr: string) {
+	return /^(now|current_timestamp|localtime|localtimestamp)\b/i.test(expr) ? expr : `(${expr})`
+}
+
+/**
+ * 比较列结构，返回不同之处的说明
+ * @param want 期望的列结构
+ * @param have 数据库中的列结构
+ */
+function columnDiffs(want: IColumnSchema, have: IColumnSchema) {
+	const diffs: Array<string> = []
+	const length = (col: IColumnSchema) => col.length.replace(/,\s+/g, ',') || DEFAULT_LENGTHS[col.type] || ''
+	const typeStr = (col: IColumnSchema) => `${col.type}${col.length ? `(${col.length})` : ''}${col.modifiers ? ` ${col.modifiers}` : ''}`
+	const sameLength = (INTEGER_TYPES.includes(want.type) && (!want.length || !have.length)) || length(want) == length(have)
+	if (want.type != have.type || !sameLength || want.modifiers != have.modifiers) diffs.push(`type ${typeStr(have)} -> ${typeStr(want)}`)
+	if (want.collation && want.collation != have.collation) diffs.push(`collation ${have.collation} -> ${want.collation}`)
+	if (want.required != have.required) diffs.push(`required ${have.required} -> ${want.required}`)
+	if (want.inc != have.inc) diffs.push(`inc ${have.inc} -> ${want.inc}`)
+	const sameDefault = (() => {
+		if (want.default === null || have.default === null) return want.default === have.default
+		if (want.defaultExpr != have.defaultExpr) return false
+		if (want.defaultExpr) return normalizeExpr(want.default) == normalizeExpr(have.default)
+		const num = /^-?\d+(\.\d+)?$/
+		if (num.test(want.default) && num.test(have.default)) return parseFloat(want.default) == parseFloat(have.default)
+		return want.default == have.default
+	})()
+	if (!sameDefault) diffs.push(`default ${have.default} -> ${want.default}`)
+	if (want.comment != have.comment) diffs.push(`comment changed`)
+	if (want.extra.toLowerCase() != have.extra.toLowerCase()) diffs.push(`extra ${have.extra || '(none)'} -> ${want.extra || '(none)'}`)
+	const generatedStr = (col: IColumnSchema) => col.generated ? `${col.generated.expr} ${col.generated.stored ? 'stored' : 'virtual'}` : '(none)'
+	const sameGenerated = (!want.generated || !have.generated) ? want.generated === have.generated : (want.generated.stored == have.generated.stored && normalizeExpr(want.generated.expr) == normalizeExpr(have.generated.expr))
+	if (!sameGenerated) diffs.push(`generated ${generatedStr(have)} -> ${generatedStr(want)}`)
+	return diffs
+}
+
+/**
+ * 从show create table的结果中获取定义行，没有时返回null
+ * @param table 表结构
+ * @param test 定义行检测
+ */
+function definitionLine(table: ITableSchema, test: (line: string) => boolean) {
+	const line = table.createSql.split('\n').slice(1, -1).map(line => line.trim().replace(/,$/, '')).find(test)
+	return line || null
+}
+
+/**
+ * 生成列定义SQL，有建表语句时使用建表语句中的定义
+ * @param table 表结构
+ * @param col 列结构
+ */
+function columnSql(table: ITableSchema, col: IColumnSchema) {
+	const line = definitionLine(table, line => line.startsWith(`${mysql.escapeId(col.name)} `))
+	if (line) return line
+	return [
+		mysql.escapeId(col.name),
+		`${col.type}${col.length ? `(${col.length})` : ''}${col.modifiers ? ` ${col.modifiers}` : ''}`,
+		col.collation ? `collate ${col.collation}` : '',
+		col.generated ? `generated always as (${col.generated.expr}) ${col.generated.stored ? 'stored' : 'virtual'}` : '',
+		col.required ? 'not null' : 'null',
+		col.inc ? 'auto_increment' : '',
+		(col.default === null) ? '' : `default ${col.defaultExpr ? exprSql(col.default) : mysql.escape(col.default)}`,
+		col.extra,
+		col.comment ? `comment ${mysql.escape(col.comment)}` : '',
+	].filter(s => !!s).join(' ')
+}
+
+/**
+ * 生成索引定义SQL，有建表语句时使用建表语句中的定义
+ * @param table 表结构
+ * @param index 索引结构
+ */
+function indexSql(table: ITableSchema, index: IIndexSchema) {
+	const line = definitionLine(table, line => /^(UNIQUE |FULLTEXT |SPATIAL )?KEY /.test(line) && line.includes(`KEY ${mysql.escapeId(index.name)} `))
+	if (line) return line
+	const type = (index.type == 'index') ? 'index' : `${index.type} index`
+	const cols = index.columns.map((c, i) => `${mysql.escapeId(c!)}${(index.subParts[i] !== null) ? `(${index.subParts[i]})` : ''}${index.desc[i] ? ' desc' : ''}`).join(',')
+	return `${type} ${mysql.escapeId(index.name)}(${cols})${index.ngram ? ' with parser ngram' : ''}${index.invisible ? ' invisible' : ''}`
+}
+
+/**
+ * 生成索引比较键
+ * @param index 索引结构
+ */
+function indexKey(index: IIndexSchema) {
+	const cols = index.columns.map((c, i) => `${c}${(index.subParts[i] !== null) ? `(${index.subParts[i]})` : ''}${index.desc[i] ? ' desc' : ''}`)
+	return [index.type, cols.join(','), index.ngram ? 'ngram' : '', index.invisible ? 'invisible' : ''].join(':')
+}
+
+/**
+ * 生成外键比较键，InnoDB中no action与restrict相同
+ * @param link 外键结构
+ */
+function linkKey(link: ILinkSchema) {
+	const rule = (rule: string) => (rule == 'no action') ? 'restrict' : rule
+	return [link.columns.join(','), link.table, link.refColumns.join(','), rule(link.update), rule(link.delete)].join(':')
+}
+
+/**
+ * 生成执行原始SQL的修改
+ * @param table 表名称
+ * @param description 修改说明
+ * @param sql SQL语句
+ */
+function rawChange(table: string, description: string, sql: string): ISchemaChange {
+	return { table, description, code: [`await conn.exec(${quote(sql)})`], apply: async conn => { await conn.exec(sql) } }
+}
+
+/**
+ * 使用mktbl创建可以使用mktbl表达的表，其他表使用建表语句创建，不包括外键
+ * @param conn 数据库连接
+ * @param table 表结构
+ */
+async function makeTable(conn: MyConnection, table: ITableSchema) {
+	if (!buildable(table)) return await conn.exec(createSqlWithoutLinks(table.createSql))
+	const maker = conn.mktbl(table.name, table.comment || undefined)
+	if (table.engine && table.engine.toLowerCase() != 'innodb') maker.engine(table.engine)
+	if (table.charset) maker.charset(table.charset, table.collation || undefined)
+	if (table.rowFormat) maker.rowFormat(table.rowFormat)
+	table.columns.forEach(col => {
+		if (col.generated) maker.generated(col.name, col.type, col.generated.expr, columnOption(col, table.collation))
+		else maker.column(col.name, col.type, columnOption(col, table.collation))
+	})
+	const primary = table.indexes.find(idx => idx.type == 'primary')
+	if (primary) maker.primary(...primary.columns as Array<string>)
+	table.indexes.forEach(idx => {
+		if (idx.type == 'primary') return
+		const { columns, ...option } = indexOption(idx)
+		maker.index(columns, idx.type, option)
+	})
+	table.checks.forEach(check => maker.check(check.name, check.expr))
+	await maker.done()
+}
+
+/**
+ * 比较期望的表结构与数据库中的表结构，生成使数据库与期望一致所需的修改
+ *
+ * 修改按以下顺序排列：删除外键、创建表、修改表、添加外键、删除表
+ * @param desired 期望的表结构
+ * @param actual 数据库中的表结构
+ * @param drop 是否删除数据库中存在但没有定义的表和列
+ */
+export function diffTables(desired: Array<ITableSchema>, actual: Array<ITableSchema>, drop?: boolean): Array<ISchemaChange> {
+	const dropLinks: Array<ISchemaChange> = []
+	const creates: Array<ISchemaChange> = []
+	const alters: Array<ISchemaChange> = []
+	const addLinks: Array<ISchemaChange> = []
+	const drops: Array<ISchemaChange> = []
+	sortByDependency(desired).forEach(want => {
+		const t = want.name
+		const uptbl = `await conn.uptbl(${quote(t)})`
+		const have = actual.find(a => a.name == t)
+		//外键，期望的外键指定了名称时同时比较名称
+		const haveLinks = have ? have.links : []
+		const sameLink = (wanted: ILinkSchema, current: ILinkSchema) => linkKey(wanted) == linkKey(current) && (!wanted.name || wanted.name == current.name)
+		want.links.filter(link => !haveLinks.some(l => sameLink(link, l))).forEach(link => {
+			addLinks.push({
+				table: t,
+				description: `add foreign key [${t}.${link.columns.join(',')}] -> [${link.table}.${link.refColumns.join(',')}]`,
+				code: [linkCode(t, link)],
+				apply: async conn => { await conn.uptbl(t).addLink(link.columns, link.table, link.refColumns, linkOption(t, link)) },
+			})
+		})
+		haveLinks.filter(link => !want.links.some(l => sameLink(l, link))).forEach(link => {
+			dropLinks.push({
+				table: t,
+				description: `drop foreign key [${t}.${link.name}] (${link.columns.join(',')})`,
+				code: [`${uptbl}.dropForeignKey(${quote(link.name)})`],
+				apply: async conn => { await conn.uptbl(t).dropForeignKey(link.name) },
+			})
+		})
+		//创建表
+		if (!have) {
+			creates.push({ table: t, description: `create table [${t}]`, code: tableCode(want, () => false), apply: async conn => { await makeTable(conn, want) } })
+			return
+		}
+		//表注释及表选项
+		if (want.comment != have.comment) alters.push({ table: t, description: `alter table [${t}] comment`, code: [`${uptbl}.comment(${quote(want.comment)})`], apply: async conn => { await conn.uptbl(t).comment(want.comment) } })
+		if (want.engine && want.engine.toLowerCase() != have.engine.toLowerCase()) {
+			alters.push({ table: t, description: `alter table [${t}] engine ${have.engine} -> ${want.engine}`, code: [`${uptbl}.engine(${quote(want.engine)})`], apply: async conn => { await conn.uptbl(t).engine(want.engine) } })
+		}
+		if ((want.charset && want.charset != have.charset) || (want.collation && want.collation != have.collation)) {
+			const charset = want.charset || have.charset
+			const collation = want.collation || undefined
+			alters.push({
+				table: t,
+				description: `alter table [${t}] charset ${have.charset} ${have.collation} -> ${charset} ${collation || ''}`.trim(),
+				code: [`${uptbl}.charset(${quote(charset)}${collation ? `, ${quote(collation)}` : ''})`],
+				apply: async conn => { await conn.uptbl(t).charset(charset, collation) },
+			})
+		}
+		if (isRowFormat(want.rowFormat) && want.rowFormat != have.rowFormat) {
+			const format = want.rowFormat
+			alters.push({ table: t, description: `alter table [${t}] row format ${have.rowFormat || 'default'} -> ${want.rowFormat}`, code: [`${uptbl}.rowFormat(${quote(want.rowFormat)})`], apply: async conn => { await conn.uptbl(t).rowFormat(format) } })
+		}
+		//检查约束，表达式不同时先删除再添加
+		const sameCheck = (c1: ICheckSchema, c2: ICheckSchema) => c1.name == c2.name && normalizeExpr(c1.expr) == normalizeExpr(c2.expr)
+		have.checks.filter(check => !want.checks.some(c => sameCheck(c, check))).forEach(check => {
+			alters.push({ table: t, description: `drop check [${t}.${check.name}]`, code: [`${uptbl}.dropCheck(${quote(check.name)})`], apply: async conn => { await conn.uptbl(t).dropCheck(check.name) } })
+		})
+		const addChecks = want.checks.filter(check => !have.checks.some(c => sameCheck(c, check)))
+		//多余的索引，外键所在列上的索引由数据库自动创建，不删除
+		const linkColumns = [...want.links, ...have.links].map(link => link.columns.join(','))
+		const wantIndexes = want.indexes.filter(idx => idx.type != 'primary')
+		const haveIndexes = have.indexes.filter(idx => idx.type != 'primary')
+		haveIndexes.filter(idx => !wantIndexes.some(i => indexKey(i) == indexKey(idx)) && !(idx.type == 'index' && linkColumns.includes(idx.columns.join(',')))).forEach(idx => {
+			alters.push({ table: t, description: `drop index [${t}.${idx.name}]`, code: [`${uptbl}.dropKey(${quote(idx.name)})`], apply: async conn => { await conn.uptbl(t).dropKey(idx.name) } })
+		})
+		//结构相同但名称不同的索引
+		wantIndexes.forEach(idx => {
+			const same = haveIndexes.filter(i => indexKey(i) == indexKey(idx))
+			if (!same.length || same.some(i => i.name == idx.name)) return
+			const from = same[0].name
+			alters.push({ table: t, description: `rename index [${t}.${from}] -> [${idx.name}]`, code: [`${uptbl}.renameIndex(${quote(from)}, ${quote(idx.name)})`], apply: async conn => { await conn.uptbl(t).renameIndex(from, idx.name) } })
+		})
+		//列
+		want.columns.forEach(col => {
+			const current = have.columns.find(c => c.name == col.name)
+			if (!current) {
+				const description = `add column [${t}.${col.name}]`
+				if (!columnBuildable(col)) return alters.push(rawChange(t, description, `alter table ${mysql.escapeId(t)} add column ${columnSql(want, col)}`))
+				const method = col.generated ? 'addGenerated' : 'addColumn'
+				const type = col.type
+				return alters.push({
+					table: t,
+					description,
+					code: [`${uptbl}.${method}(${columnArgs(col, have.collation)})`],
+					apply: async conn => {
+						const option = columnOption(col, have.collation)
+						if (col.generated) await conn.uptbl(t).addGenerated(col.name, type, col.generated.expr, option)
+						else await conn.uptbl(t).addColumn(col.name, type, option)
+					},
+				})
+			}
+			const diffs = columnDiffs(col, current)
+			if (!diffs.length) return
+			const description = `alter column [${t}.${col.name}]: ${diffs.join(', ')}`
+			//ColumnUpdater无法表达的修改使用modify语句
+			if (!columnBuildable(col) || !columnBuildable(current) || diffs.some(d => d.startsWith('collation ') || d.startsWith('extra ') || d.startsWith('generated '))) {
+				return alters.push(rawChange(t, description, `alter table ${mysql.escapeId(t)} modify column ${columnSql(want, col)}`))
+			}
+			const steps: Array<[string, (updater: ReturnType<ReturnType<MyConnection['uptbl']>['column']>) => Promise<void>]> = []
+			const updater = `${uptbl}.column(${quote(col.name)})`
+			if (diffs.some(d => d.startsWith('type '))) {
+				const { length, values, unsigned, zerofill } = columnOption(col)
+				const option = [values ? `values: [${values.map(v => quote(v)).join(', ')}]` : '', unsigned ? 'unsigned: true' : '', zerofill ? 'zerofill: true' : ''].filter(s => !!s)
+				const args = [quote(col.type), length ? (/^\d+$/.test(length) ? length : quote(length)) : option.length ? 'undefined' : '', option.length ? `{ ${option.join(', ')} }` : ''].filter(s => !!s)
+				const type = col.type
+				steps.push([`${updater}.type(${args.join(', ')})`, u => u.type(type, length, { values, unsigned, zerofill })])
+			}
+			if (col.required != current.required) steps.push([`${updater}.required(${col.required})`, u => u.required(col.required)])
+			if (col.inc != current.inc) steps.push([`${updater}.inc(${col.inc})`, u => u.inc(col.inc)])
+			if (diffs.some(d => d.startsWith('default '))) {
+				const dft = columnOption(col).default
+				const code = (col.default === null) ? 'undefined' : col.defaultExpr ? `() => ${quote(col.default)}` : (typeof dft == 'number') ? col.default : quote(col.default)
+				steps.push([`${updater}.default(${code})`, u => u.default(dft)])
+			}
+			if (col.comment != current.comment) steps.push([`${updater}.comment(${quote(col.comment)})`, u => u.comment(col.comment)])
+			alters.push({
+				table: t,
+				description,
+				code: steps.map(([code]) => code),
+				apply: async conn => {
+					for (let i = 0; i < steps.length; i++) await steps[i][1](conn.uptbl(t).column(col.name))
+				},
+			})
+		})
+		if (drop) have.columns.filter(col => !want.columns.some(c => c.name == col.name)).forEach(col => {
+			alters.push({ table: t, description: `drop column [${t}.${col.name}]`, code: [`${uptbl}.dropColumn(${quote(col.name)})`], apply: async conn => { await conn.uptbl(t).dropColumn(col.name) } })
+		})
+		//主键
+		const primaryOf = (table: ITableSchema) => (table.indexes.find(idx => idx.type == 'primary') || { columns: [] as Array<string> }).columns as Array<string>
+		const primary = primaryOf(want)
+		if (primary.join(',') != primaryOf(have).join(',')) {
+			alters.push({
+				table: t,
+				description: `alter table [${t}] primary (${primaryOf(have).join(',')}) -> (${primary.join(',')})`,
+				code: [`${uptbl}.primary(${primary.map(c => quote(c)).join(', ')})`],
+				apply: async conn => { await conn.uptbl(t).primary(...primary) },
+			})
+		}
+		//缺少的索引
+		wantIndexes.filter(idx => !haveIndexes.some(i => indexKey(i) == indexKey(idx))).forEach(idx => {
+			const description = `add index [${t}.${idx.name}] (${idx.columns.join(',')})`
+			if (!indexBuildable(idx)) return alters.push(rawChange(t, description, `alter table ${mysql.escapeId(t)} add ${indexSql(want, idx)}`))
+			const { columns, ...option } = indexOption(idx)
+			const type = idx.type
+			alters.push({
+				table: t,
+				description,
+				code: [`${uptbl}.addIndex(${indexArgs(idx)})`],
+				apply: async conn => { await conn.uptbl(t).addIndex(columns, type, option) },
+			})
+		})
+		addChecks.forEach(check => {
+			alters.push({ table: t, description: `add check [${t}.${check.name}]`, code: [`${uptbl}.addCheck(${quote(check.name)}, ${quote(check.expr)})`], apply: async conn => { await conn.uptbl(t).addCheck(check.name, check.expr) } })
+		})
+	})
+	//多余的表，被引用的表最后删除
+	if (drop) sortByDependency(actual.filter(a => !desired.some(d => d.name == a.name))).reverse().forEach(table => {
+		drops.push(rawChange(table.name, `drop table [${table.name}]`, `drop table ${mysql.escapeId(table.name)}`))
+	})
+	return [...dropLinks, ...creates, ...alters, ...addLinks, ...drops]
+}
+
+/**
+ * 比较dbu.define定义的表结构与数据库中的表结构，生成使数据库与定义一致所需的修改
+ * @param option 比较选项
+ */
+export async function diffSchema(option: IDiffOption) {
+	const conn = dbu.getConnection(option.databaseConfig)
+	try {
+		const actual = await readSchema(conn, option.databaseConfig.database)
+		return diffTables(option.tables.map(t => schemaOf(t)), actual.filter(t => t.name != '_ver'), option.drop)
+	} finally {
+		conn.close()
+	}
+}
+
+/**
+ * 修改数据库使其与dbu.define定义的表结构一致
+ * @param option 比较选项
+ * @returns 执行的修改
+ */
+export async function applySchema(option: IDiffOption) {
+	const conn = dbu.getConnection(option.databaseConfig)
+	try {
+		const changes = await diffSchema(option)
+		await conn.use(option.databaseConfig.database)
+		for (let i = 0; i < changes.length; i++) await changes[i].apply(conn)
+		logger.success('diff', changes.length ? `${changes.length} schema changes applied` : 'schema is up to date')
+		return changes
+	} catch (err) {
+		logger.error('diff', err.message)
+		throw err
+	} finally {
+		conn.close()
+	}
+}
+
+/**
+ * 比较dbu.define定义的表结构与数据库中的表结构，生成使数据库与定义一致的版本文件
+ * @param option 比较选项
+ * @returns 版本文件内容，没有修改时返回null
+ */
+export async function diffVersion(option: IDiffOption & {
+	/** 生成的版本号 */
+	version: number
+	/** 生成javascript版本文件，默认typescript */
+	js?: boolean
+	/** 写入的文件，不给定时只返回文件内容 */
+	file?: string
+}) {
+	const changes = await diffSchema(option)
+	if (!changes.length) {
+		logger.warn('diff', 'schema is up to date, nothing to be generated')
+		return null
+	}
+	const content = versionCode(option.version, changes.reduce((lines, change) => [...lines, ...change.code], [] as Array<string>), option.js)
+	if (option.file) {
+		const file = path.resolve(process.cwd(), option.file)
+		if (fs.existsSync(file)) throw new Error(`file ${file} already exists`)
+		fs.writeFileSync(file, content)
+		logger.success('diff', `version file ${file} generated with ${changes.length} schema changes`)
+	}
+	return content
+}
+
+/**
+ * 检查数据库表结构是否与版本程序生成的一致：在临时数据库中执行版本程序到数据库的当前版本，比较两者的表结构，完成后删除临时数据库
+ * @param option 检查选项
+ */
+export async function checkDrift(option: IDriftOption): Promise<IDriftReport> {
+	const database = option.databaseConfig.database
+	const conn = dbu.getConnection(option.databaseConfig)
+	let scratch: string | undefined
+	try {
+		//数据库当前版本及字符集
+		const [schema] = await conn.query('select DEFAULT_CHARACTER_SET_NAME from information_schema.SCHEMATA where SCHEMA_NAME = ?', database)
+		if (!schema) throw new Error(`database ${database} not exists`)
+		const [ver] = await conn.query('select TABLE_NAME from information_schema.TABLES where TABLE_SCHEMA = ? and TABLE_NAME = ?', database, '_ver')
+		if (!ver) throw new Error(`database ${database} has no version table _ver`)
+		const [{ version }] = await conn.query('select max(ver) as version from ??.`_ver`', database)
+		if (version === null) throw new Error(`database ${database} has no applied version`)
+		//在临时数据库中执行版本程序
+		scratch = `${database}_drift_${moment().format('YYYYMMDDHHmmss')}`
+		await update({
+			versionDir: option.versionDir,
+			version: version + '',
+			databaseConfig: { ...option.databaseConfig, charset: option.databaseConfig.charset || schema.DEFAULT_CHARACTER_SET_NAME, database: scratch },
+		})
+		//比较表结构
+		const expected = (await readSchema(conn, scratch)).filter(t => t.name != '_ver')
+		const actual = (await readSchema(conn, database)).filter(t => t.name != '_ver')
+		const changes = diffTables(expected, actual, true)
+		const report: IDriftReport = { database, version: parseFloat(version), scratchDatabase: scratch, passed: !changes.length, changes }
+		if (report.passed) logger.success('drift', `database ${database} matches version ${report.version}`)
+		else {
+			logger.error('drift', `database ${database} drifted from version ${report.version}:`)
+			changes.forEach(change => logger.logln(`  ${change.description}`))
+		}
+		return report
+	} catch (err) {
+		logger.error('drift', err.message)
+		throw err
+	} finally {
+		//删除临时数据库
+		if (scratch) await conn.exec('drop database if exists ??', scratch).catch(() => {
+			logger.warn('drift', `drop scratch database ${scratch} failed, drop it manually`)
+		})
+		conn.close()
+	}
+}
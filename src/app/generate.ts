@@ -0,0 +1,67 @@
+import fs from 'fs'
+import path from 'path'
+import { dbu } from '../lib/mysql'
+import { logger } from '../lib/logger'
+import { filterTables } from '../lib/utils'
+import { ILinkSchema, readSchema, sortByDependency } from '../lib/schema'
+import { linkCode, tableCode, versionCode } from '../lib/codegen'
+
+/** 版本文件生成选项 */
+export interface IGenerateOption {
+	/** 生成的版本号，默认1 */
+	version?: number
+	/** 生成javascript版本文件，默认typescript */
+	js?: boolean
+	/** 要生成的表，支持*和?通配符，默认全部表（不包括_ver） */
+	tables?: Array<string>
+	/** 不生成的表，支持*和?通配符 */
+	excludeTables?: Array<string>
+	/** 写入的文件，不给定时只返回文件内容 */
+	file?: string
+	/** 数据库配置 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/**
+ * 读取已有数据库的表结构，生成可以重建这些表的版本文件
+ *
+ * 表按照外键依赖关系排列，能够使用mktbl表达的表使用mktbl创建，其他表（如包含表达式索引、分区等）使用原始的建表语句创建
+ * @param option 生成选项
+ * @returns 版本文件内容
+ */
+export async function generateVersion(option: IGenerateOption) {
+	const conn = dbu.getConnection(option.databaseConfig)
+	try {
+		const database = option.databaseConfig.database
+		const all = await readSchema(conn, database)
+		const names = filterTables(all.map(t => t.name).filter(t => t != '_ver'), option.tables, option.excludeTables)
+		const tables = sortByDependency(all.filter(t => names.includes(t.name)))
+		const lines: Array<string> = []
+		//依赖的表尚未创建的外键（循环引用），在全部表创建之后添加
+		const deferred: Array<string> = []
+		const created: Array<string> = []
+		tables.forEach(table => {
+			const ready = (link: ILinkSchema) => link.table == table.name || created.includes(link.table) || !names.includes(link.table)
+			lines.push(...tableCode(table, ready))
+			table.links.filter(link => !ready(link)).forEach(link => deferred.push(linkCode(table.name, link)))
+			created.push(table.name)
+		})
+		lines.push(...deferred)
+		const content = versionCode(option.version || 1, lines, option.js)
+		if (option.file) {
+			const file = path.resolve(process.cwd(), option.file)
+			if (fs.existsSync(file)) throw new Error(`file ${file} already exists`)
+			fs.writeFileSync(file, content)
+			logger.success('generate', `version file ${file} generated from ${tables.length} tables`)
+		}
+		return content
+	} catch (err) {
+		logger.error('generate', err.message)
+		throw err
+	} finally {
+		conn.close()
+	}
+}
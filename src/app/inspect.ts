@@ -0,0 +1,56 @@
+import fs from 'fs'
+import path from 'path'
+import { BACKUP_FILE_TAG } from '../lib/const'
+import { hashOf, IBackupMeta, readBackupFile, verifyBackupFile } from '../lib/bakfile'
+
+/** 备份文件检查选项 */
+export interface IInspectOption {
+	/** 备份文件标记 */
+	backupFileTag?: string | Buffer
+	/** 是否校验文件完整性 */
+	verify?: boolean
+	/** 备份文件加密密码，校验加密文件时需要 */
+	fileEncryptPassword?: string | Buffer
+}
+
+/** 备份文件信息 */
+export interface IBackupInspection extends Partial<IBackupMeta> {
+	/** 文件路径 */
+	file: string
+	/** 文件大小 */
+	size: number
+	/** 文件格式版本，1表示旧版文件（没有元数据） */
+	format: number
+	/** 压缩方式 */
+	compression: 'gzip'
+	/** 加密方式，旧版文件无法区分是否加密，统一为xor */
+	encryption: 'none' | 'xor' | 'aes-256-gcm'
+	/** 数据哈希（hex），旧版文件为null */
+	hash: string | null
+}
+
+/**
+ * 读取备份文件的元数据
+ * @param file 备份文件路径
+ * @param option 检查选项
+ */
+export async function inspectBackup(file: string, option?: IInspectOption): Promise<IBackupInspection> {
+	option = option || {}
+	file = path.resolve(process.cwd(), file)
+	if (!fs.existsSync(file)) throw new Error(`file ${file} not exists`)
+	const info = readBackupFile(file, option.backupFileTag ? Buffer.from(option.backupFileTag) : BACKUP_FILE_TAG)
+	if (option.verify) await verifyBackupFile(info, option.fileEncryptPassword)
+	const size = fs.statSync(file).size
+	//旧版文件
+	if (!info.header) return { file, size, format: info.format, compression: 'gzip', encryption: 'xor', hash: null }
+	const { encryption, compression, hash, salt, iv, ...meta } = info.header
+	return {
+		...meta,
+		file,
+		size,
+		format: info.format,
+		compression,
+		encryption,
+		hash: hashOf(info),
+	}
+}
@@ -1,12 +1,29 @@
-import zlib from 'zlib'
 import path from 'path'
+import mysql from 'mysql'
+import moment from 'moment'
 import fs from 'fs'
-import { exec } from 'child_process'
-import { BACKUP_FILE_TAG, MAX_BUFFER } from '../lib/const'
+import stream from 'stream'
+import { BACKUP_FILE_TAG } from '../lib/const'
+import { spawnClient } from '../lib/client'
 import { logger } from '../lib/logger'
 import { dbu } from '../lib/mysql'
-import { createCryptStream } from '../lib/utils'
+import { createBackupReader, IBinlogPosition, readBackupFile, verifyBackupFile } from '../lib/bakfile'
+import { findBackup, IBackupSelector } from './catalog'
+import { createTableFilterStream, filterTables } from '../lib/utils'
+import { loadDump, unqualify } from '../lib/dumper'
+import { formatBytes, IProgress, Progress } from '../lib/progress'
 
+/** 按时间点恢复选项，恢复备份后从备份时的二进制日志位置开始重放，直到给定的时间或位置 */
+export interface IPointInTimeOption {
+	/** 重放到的时间（不包含），默认重放全部日志 */
+	stopDatetime?: string | Date
+	/** 重放到的二进制日志文件，默认为最新的日志文件 */
+	stopFile?: string
+	/** 在最后一个日志文件中重放到的位置（不包含） */
+	stopPosition?: number
+}
+
+/** 数据库恢复选项 */
 export interface IRestoreOption {
 	/** 备份文件创建时的加密密码 */
 	fileEncryptPassword?: string | Buffer
@@ -16,6 +33,38 @@ export interface IRestoreOption {
 	backupFileTag?: string | Buffer
 	/** 恢复的文件名称 */
 	file?: string
+	/** 未给定文件名称时，从备份目录中选择备份文件的条件，默认选择最新的备份 */
+	select?: IBackupSelector
+	/** 
+	 * 要恢复的表，支持*和?通配符
+	 * 
+	 * 给定tables或excludeTables时只恢复选中的表，数据库不会被删除，其他表保持不变
+	 */
+	tables?: Array<string>
+	/** 不恢复的表，支持*和?通配符 */
+	excludeTables?: Array<string>
+	/** 恢复引擎，external表示使用mysql命令，builtin表示使用内置的恢复程序（不需要安装mysql客户端），默认external */
+	engine?: 'external' | 'builtin'
+	/** 恢复到的数据库名称，默认为databaseConfig.database，可用于将备份恢复为另一个数据库（如app_copy） */
+	targetDatabase?: string
+	/** 
+	 * 先恢复到临时数据库，完成后再将所有表一次性（RENAME TABLE）换入目标数据库
+	 * 
+	 * 恢复过程中目标数据库保持可用，目标数据库原有的表会被移动到{目标数据库}_old_{时间}数据库中
+	 */
+	swap?: boolean
+	/** 换入完成后删除原有的表，默认保留 */
+	dropOld?: boolean
+	/** 不恢复事件，恢复为副本数据库时可以避免事件在副本中执行 */
+	skipEvents?: boolean
+	/** 
+	 * 按时间点恢复，备份需要使用binlog选项创建
+	 * 
+	 * 使用mysqlbinlog从数据库服务器读取二进制日志，只重放备份数据库的日志，需要REPLICATION SLAVE权限
+	 */
+	pointInTime?: IPointInTimeOption
+	/** 进度回调，恢复过程中定期调用 */
+	onProgress?: (progress: IProgress) => void
 	/** 数据库配置 */
 	databaseConfig: dbu.IMysqlConnOption & {
 		/** 数据库名 */
@@ -23,18 +72,378 @@ export interface IRestoreOption {
 	}
 }
 
+/** 恢复结果 */
+export interface IRestoreSummary {
+	/** 备份文件路径 */
+	file: string
+	/** 恢复到的数据库 */
+	database: string
+	/** 备份文件大小 */
+	size: number
+	/** 恢复的SQL数据大小 */
+	sqlSize: number
+	/** 恢复用时（毫秒），包含二进制日志重放及换入的时间 */
+	duration: number
+	/** 恢复的表及视图 */
+	tables: Array<string>
+}
+
+/**
+ * 使用mysql命令执行SQL数据流
+ * @param option 恢复选项
+ * @param input SQL数据流
+ */
+function loadExternal(option: IRestoreOption, input: stream.Readable) {
+	return new Promise<void>((resolve, reject) => {
+		//创建进程
+		const cp = spawnClient('mysql', option.databaseConfig, [option.databaseConfig.database])
+		let stderr = ''
+		cp.stderr!.on('data', data => stderr += data)
+		cp.once('error', err => reject(new Error(`mysql: ${err.message}`)))
+		cp.once('close', code => (code == 0) ? resolve() : reject(new Error(`mysql exited with code ${code}: ${stderr.trim()}`)))
+		//写入数据流
+		input.on('error', err => {
+			cp.kill()
+			reject(new Error('read backup file: ' + err.message))
+		})
+		//mysql出错退出时忽略写入错误，错误信息由close事件给出
+		cp.stdin!.on('error', () => { })
+		input.pipe(cp.stdin!)
+	})
+}
+
+/**
+ * 使用内置恢复程序执行SQL数据流
+ * @param option 恢复选项
+ * @param input SQL数据流
+ */
+async function loadBuiltin(option: IRestoreOption, input: stream.Readable) {
+	const conn = dbu.getConnection(option.databaseConfig)
+	try {
+		await conn.use(option.databaseConfig.database)
+		await loadDump(conn, input)
+	} finally {
+		conn.close()
+	}
+}
+
+/**
+ * 使用mysqlbinlog读取二进制日志并通过mysql命令重放
+ * @param option 恢复选项
+ * @param binlog 开始重放的位置
+ * @param from 备份的数据库
+ * @param to 重放到的数据库
+ */
+async function replayBinlog(option: IRestoreOption, binlog: IBinlogPosition, from: string, to: string) {
+	const pit = option.pointInTime!
+	//需要重放的日志文件
+	const conn = dbu.getConnection(option.databaseConfig)
+	const logs = await conn.query('show binary logs').then(res => res.map(r => r.Log_name as string)).finally(() => conn.close())
+	const start = logs.indexOf(binlog.file)
+	if (start < 0) throw new Error(`binlog ${binlog.file} not found on server, it may have been purged`)
+	const end = pit.stopFile ? logs.indexOf(pit.stopFile) : logs.length - 1
+	if (end < start) throw new Error(`binlog ${pit.stopFile} not found after ${binlog.file}`)
+	const files = logs.slice(start, end + 1)
+	logger.info('restore', `replay binlog from ${binlog.file}:${binlog.position}${pit.stopDatetime ? ` until ${moment(pit.stopDatetime).format('YYYY-MM-DD HH:mm:ss')}` : ''}`)
+	//重放时GTID已经执行过，需要忽略GTID，否则事务会被跳过
+	const args = [
+		'--read-from-remote-server',
+		'--skip-gtids',
+		...(from != to) ? [`--rewrite-db=${from}->${to}`] : [],
+		`--database=${to}`,
+		`--start-position=${binlog.position}`,
+		...pit.stopDatetime ? [`--stop-datetime=${moment(pit.stopDatetime).format('YYYY-MM-DD HH:mm:ss')}`] : [],
+		...(pit.stopPosition !== undefined) ? [`--stop-position=${pit.stopPosition}`] : [],
+		...files,
+	]
+	await new Promise<void>((resolve, reject) => {
+		const reader = spawnClient('mysqlbinlog', option.databaseConfig, args)
+		let stderr = ''
+		reader.stderr!.on('data', data => stderr += data)
+		reader.once('error', err => reject(new Error(`mysqlbinlog: ${err.message}`)))
+		reader.once('close', code => {
+			if (code != 0) reject(new Error(`mysqlbinlog exited with code ${code}: ${stderr.trim()}`))
+		})
+		loadExternal({ ...option, databaseConfig: { ...option.databaseConfig, database: to } }, reader.stdout!).then(resolve, reject)
+	})
+}
+
+//获取数据库中的表、视图、触发器、存储过程、函数及事件
+async function schemaObjects(conn: ReturnType<typeof dbu.getConnection>, database: string) {
+	const res = await conn.query('select TABLE_NAME, TABLE_TYPE from information_schema.TABLES where TABLE_SCHEMA = ?', database)
+	const triggers = await conn.query('select TRIGGER_NAME from information_schema.TRIGGERS where TRIGGER_SCHEMA = ?', database)
+	const routines = await conn.query('select ROUTINE_NAME, ROUTINE_TYPE from information_schema.ROUTINES where ROUTINE_SCHEMA = ?', database)
+	const events = await conn.query('select EVENT_NAME, STATUS from information_schema.EVENTS where EVENT_SCHEMA = ?', database)
+	return {
+		tables: res.filter(r => r.TABLE_TYPE != 'VIEW').map(r => r.TABLE_NAME as string),
+		views: res.filter(r => r.TABLE_TYPE == 'VIEW').map(r => r.TABLE_NAME as string),
+		triggers: triggers.map(r => r.TRIGGER_NAME as string),
+		routines: routines.map(r => ({ name: r.ROUTINE_NAME as string, type: (r.ROUTINE_TYPE as string).toLowerCase() as 'procedure' | 'function' })),
+		events: events.map(r => ({ name: r.EVENT_NAME as string, enabled: r.STATUS == 'ENABLED' })),
+	}
+}
+
+/**
+ * 读取视图定义，定义中的数据库名称会被去掉
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param views 视图名称
+ */
+async function viewDefs(conn: ReturnType<typeof dbu.getConnection>, database: string, views: Array<string>) {
+	const defs: Array<string> = []
+	for (let i = 0; i < views.length; i++) {
+		const [res] = await conn.query(`show create view ${mysql.escapeId(database)}.${mysql.escapeId(views[i])}`)
+		defs.push(unqualify(res['Create View'], database))
+	}
+	return defs
+}
+
+/**
+ * 在给定的数据库中创建或替换视图，视图之间互相引用时，创建失败的视图在其他视图创建之后重试
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param defs 视图定义
+ */
+async function createViews(conn: ReturnType<typeof dbu.getConnection>, database: string, defs: Array<string>) {
+	await conn.use(database)
+	let rest = defs.map(def => def.replace(/^CREATE /i, 'CREATE OR REPLACE '))
+	while (rest.length) {
+		const failed: Array<string> = []
+		let error: Error | undefined
+		for (let i = 0; i < rest.length; i++) await conn.exec(rest[i]).catch(err => {
+			failed.push(rest[i])
+			error = err
+		})
+		if (failed.length == rest.length) throw error
+		rest = failed
+	}
+}
+
+/**
+ * 删除视图
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param views 视图名称
+ */
+async function dropViews(conn: ReturnType<typeof dbu.getConnection>, database: string, views: Array<string>) {
+	for (let i = 0; i < views.length; i++) await conn.exec(`drop view if exists ${mysql.escapeId(database)}.${mysql.escapeId(views[i])}`)
+}
+
+/**
+ * 读取触发器定义，定义中的数据库名称会被去掉
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param triggers 触发器名称
+ */
+async function triggerDefs(conn: ReturnType<typeof dbu.getConnection>, database: string, triggers: Array<string>) {
+	const defs: Array<string> = []
+	for (let i = 0; i < triggers.length; i++) {
+		const [res] = await conn.query(`show create trigger ${mysql.escapeId(database)}.${mysql.escapeId(triggers[i])}`)
+		defs.push(unqualify(res['SQL Original Statement'], database))
+	}
+	return defs
+}
+
+/**
+ * 在给定的数据库中创建触发器
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param defs 触发器定义
+ */
+async function createTriggers(conn: ReturnType<typeof dbu.getConnection>, database: string, defs: Array<string>) {
+	await conn.use(database)
+	for (let i = 0; i < defs.length; i++) await conn.exec(defs[i])
+}
+
+/**
+ * 删除触发器
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param triggers 触发器名称
+ */
+async function dropTriggers(conn: ReturnType<typeof dbu.getConnection>, database: string, triggers: Array<string>) {
+	for (let i = 0; i < triggers.length; i++) await conn.exec(`drop trigger if exists ${mysql.escapeId(database)}.${mysql.escapeId(triggers[i])}`)
+}
+
+/**
+ * 读取存储过程及函数的定义
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param routines 存储过程及函数
+ */
+async function routineDefs(conn: ReturnType<typeof dbu.getConnection>, database: string, routines: Array<{ name: string, type: 'procedure' | 'function' }>) {
+	const defs: Array<string> = []
+	for (let i = 0; i < routines.length; i++) {
+		const { name, type } = routines[i]
+		const [res] = await conn.query(`show create ${type} ${mysql.escapeId(database)}.${mysql.escapeId(name)}`)
+		const create = res[(type == 'function') ? 'Create Function' : 'Create Procedure']
+		if (!create) throw new Error(`no privilege to read definition of ${type} ${name}`)
+		defs.push(create)
+	}
+	return defs
+}
+
+/**
+ * 在给定的数据库中创建存储过程及函数，已存在的同名对象先删除
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param routines 存储过程及函数
+ * @param defs 定义，与routines一一对应
+ */
+async function createRoutines(conn: ReturnType<typeof dbu.getConnection>, database: string, routines: Array<{ name: string, type: 'procedure' | 'function' }>, defs: Array<string>) {
+	await conn.use(database)
+	for (let i = 0; i < routines.length; i++) {
+		await conn.exec(`drop ${routines[i].type} if exists ${mysql.escapeId(routines[i].name)}`)
+		await conn.exec(defs[i])
+	}
+}
+
+/**
+ * 删除存储过程及函数
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param routines 存储过程及函数
+ */
+async function dropRoutines(conn: ReturnType<typeof dbu.getConnection>, database: string, routines: Array<{ name: string, type: 'procedure' | 'function' }>) {
+	for (let i = 0; i < routines.length; i++) await conn.exec(`drop ${routines[i].type} if exists ${mysql.escapeId(database)}.${mysql.escapeId(routines[i].name)}`)
+}
+
+/**
+ * 使用ALTER EVENT RENAME在数据库之间移动事件
+ * @param conn 数据库连接
+ * @param events 事件名称
+ * @param from 源数据库
+ * @param to 目标数据库
+ * @param status 移动后启用或停用事件，不指定时保持不变
+ * @param moved 记录已移动的事件，用于失败时回滚
+ */
+async function moveEvents(conn: ReturnType<typeof dbu.getConnection>, events: Array<string>, from: string, to: string, status?: (name: string) => 'enable' | 'disable', moved?: Array<string>) {
+	for (let i = 0; i < events.length; i++) {
+		await conn.exec(`alter event ${mysql.escapeId(from)}.${mysql.escapeId(events[i])} rename to ${mysql.escapeId(to)}.${mysql.escapeId(events[i])}${status ? ` ${status(events[i])}` : ''}`)
+		moved?.push(events[i])
+	}
+}
+
+/**
+ * 将临时数据库中的表换入目标数据库，目标数据库原有的表移动到新的数据库中
+ *
+ * 表通过一条RENAME TABLE语句移动，触发器在移动之前才删除，视图在换入之后直接替换，换入之后的步骤失败时回滚到换入之前的状态
+ *
+ * 备份中的事件不会恢复到临时数据库中，以免在临时数据库中执行，换入完成后在目标数据库中创建
+ * @param option 恢复选项
+ * @param staging 临时数据库
+ * @param target 目标数据库
+ * @param eventsSql 备份中创建事件的语句
+ * @returns 保存原有表的数据库名称，目标数据库原来没有表时返回null
+ */
+async function swapDatabase(option: IRestoreOption, staging: string, target: string, eventsSql: string) {
+	const conn = dbu.getConnection(option.databaseConfig)
+	try {
+		const dbs = await conn.query('show databases')
+		if (!dbs.some(dbi => dbi.Database == target)) await conn.exec('create database ?? default character set = ?', target, option.databaseConfig.charset || 'utf8mb4')
+		const from = await schemaObjects(conn, staging)
+		const to = await schemaObjects(conn, target)
+		const old = (to.tables.length || to.views.length || to.routines.length || to.events.length) ? `${target}_old_${moment().format('YYYYMMDDHHmmss')}` : null
+		if (old) await conn.exec('create database ?? default character set = ?', old, option.databaseConfig.charset || 'utf8mb4')
+		//先读取全部定义，换入之前目标数据库保持不变
+		const fromTriggers = await triggerDefs(conn, staging, from.triggers)
+		const toTriggers = await triggerDefs(conn, target, to.triggers)
+		const fromViews = await viewDefs(conn, staging, from.views)
+		const toViews = await viewDefs(conn, target, to.views)
+		const fromRoutines = await routineDefs(conn, staging, from.routines)
+		const toRoutines = await routineDefs(conn, target, to.routines)
+		//目标数据库原有的存储过程及函数在换入之前复制到旧数据库，目标数据库中的保留到换入成功
+		if (old) await createRoutines(conn, old, to.routines, toRoutines).catch(async err => {
+			await conn.exec('drop database ??', old)
+			throw err
+		})
+		const renameTables = (pairs: Array<[string, string, Array<string>]>) => {
+			const renames = pairs.reduce((list, [src, dest, tables]) => [...list, ...tables.map(t => `${mysql.escapeId(src)}.${mysql.escapeId(t)} to ${mysql.escapeId(dest)}.${mysql.escapeId(t)}`)], [] as Array<string>)
+			return renames.length ? conn.exec(`rename table ${renames.join(', ')}`) : Promise.resolve()
+		}
+		//有触发器的表不能跨数据库移动，触发器在移动之前才删除
+		await dropTriggers(conn, staging, from.triggers)
+		await dropTriggers(conn, target, to.triggers)
+		//一次性移动所有表
+		logger.info('restore', `swap tables of [${staging}] into [${target}]`)
+		try {
+			await renameTables([[target, old!, to.tables], [staging, target, from.tables]])
+		} catch (err) {
+			//移动失败时表保持不变，恢复触发器
+			await createTriggers(conn, staging, fromTriggers)
+			await createTriggers(conn, target, toTriggers)
+			if (old) await conn.exec('drop database ??', old)
+			throw err
+		}
+		const movedEvents: Array<string> = []
+		try {
+			//重新创建触发器
+			if (old) await createTriggers(conn, old, toTriggers)
+			await createTriggers(conn, target, fromTriggers)
+			//视图按名称引用表，换入之后直接替换为备份中的定义
+			if (old) await createViews(conn, old, toViews)
+			await createViews(conn, target, fromViews)
+			await dropViews(conn, target, to.views.filter(v => !from.views.includes(v)))
+			//替换存储过程及函数
+			await createRoutines(conn, target, from.routines, fromRoutines)
+			await dropRoutines(conn, target, to.routines.filter(r => !from.routines.some(f => f.name == r.name && f.type == r.type)))
+			//移动事件，移动到旧数据库的事件停用，以免在旧的表上执行
+			if (old) await moveEvents(conn, to.events.map(e => e.name), target, old, () => 'disable', movedEvents)
+			await moveEvents(conn, from.events.map(e => e.name), staging, target)
+			//创建备份中的事件
+			if (eventsSql) {
+				await conn.use(target)
+				await loadDump(conn, stream.Readable.from([eventsSql]))
+			}
+		} catch (err) {
+			//回滚：删除新建的触发器后将表移回，恢复目标数据库原有的触发器、视图、存储过程、函数及事件
+			logger.error('restore', `swap failed, rolling back: ${err.message}`)
+			await (async () => {
+				await dropTriggers(conn, target, from.triggers)
+				if (old) await dropTriggers(conn, old, to.triggers)
+				await renameTables([[target, staging, from.tables], ...old ? [[old, target, to.tables] as [string, string, Array<string>]] : []])
+				await createTriggers(conn, staging, fromTriggers)
+				await createTriggers(conn, target, toTriggers)
+				await createViews(conn, target, toViews)
+				await dropViews(conn, target, from.views.filter(v => !to.views.includes(v)))
+				await createRoutines(conn, target, to.routines, toRoutines)
+				await dropRoutines(conn, target, from.routines.filter(f => !to.routines.some(r => r.name == f.name && r.type == f.type)))
+				//目标数据库中除原有且未移动的事件外均为新建的事件，删除后将移走的事件移回并恢复原来的状态
+				const kept = to.events.map(e => e.name).filter(e => !movedEvents.includes(e))
+				const added = await schemaObjects(conn, target).then(res => res.events.map(e => e.name).filter(e => !kept.includes(e)))
+				for (let i = 0; i < added.length; i++) await conn.exec(`drop event if exists ${mysql.escapeId(target)}.${mysql.escapeId(added[i])}`)
+				if (old) {
+					await moveEvents(conn, movedEvents, old, target, name => to.events.find(e => e.name == name)!.enabled ? 'enable' : 'disable')
+					await conn.exec('drop database ??', old)
+				}
+			})().catch(e => logger.error('restore', `rollback failed: ${e.message}`))
+			throw err
+		}
+		//删除临时数据库
+		await conn.exec('drop database ??', staging)
+		if (old && option.dropOld) {
+			await conn.exec('drop database ??', old)
+			return null
+		}
+		return old
+	} finally {
+		conn.close()
+	}
+}
+
 /**
  * 恢复数据库
  * @param option 数据库恢复选项
+ * @returns 恢复结果
  */
-export async function restore(option: IRestoreOption) {
+export async function restore(option: IRestoreOption): Promise<IRestoreSummary> {
+	const start = Date.now()
 	let conn: ReturnType<typeof dbu.getConnection> | undefined
 	try {
-		let filename = option.file || (() => {
+		let filename = option.file || await (async () => {
 			if (!option.backupDir) return ''
-			const [file] = fs.readdirSync(option.backupDir).reverse()
-			if (!file) return ''
-			return path.join(option.backupDir, file)
+			const item = await findBackup({ ...option, database: option.databaseConfig.database }, option.select)
+			return item ? item.file : ''
 		})()
 		if (!filename) throw new Error(`backup file is required`)
 		const backupFileTag = option.backupFileTag ? Buffer.from(option.backupFileTag) : BACKUP_FILE_TAG
@@ -42,49 +451,72 @@ export async function restore(option: IRestoreOption) {
 		filename = path.resolve(process.cwd(), filename)
 		if (!fs.existsSync(filename)) throw new Error(`file ${filename} not exists`)
 		if (!fs.statSync(filename).isFile()) throw new Error(`file ${filename} is not a file`)
-		//校验是否是备份文件
-		const isBakFile = await new Promise<boolean>(resolve => {
-			const is = fs.createReadStream(filename, { start: 0, end: backupFileTag!.length - 1 })
-			is.on('data', di => {
-				is.close()
-				resolve(Buffer.compare(backupFileTag, Buffer.from(di)) == 0)
-			})
-			is.read(backupFileTag.length)
-		})
-		if (!isBakFile) throw new Error(`file ${filename} is not a backup file`)
+		//校验是否是备份文件，并在删除数据库之前校验文件完整性
+		const info = readBackupFile(filename, backupFileTag)
+		await verifyBackupFile(info, option.fileEncryptPassword)
+		if (info.header) logger.info('restore', `backup of database [${info.header.database}] at version ${info.header.version === null ? 'none' : info.header.version}, created at ${info.header.time}`)
+		//只恢复部分表
+		const partial = !!(option.tables || option.excludeTables)
+		if (partial && option.swap) throw new Error(`swap cannot be used when restoring part of tables`)
+		if (partial && option.pointInTime) throw new Error(`point in time recovery cannot be used when restoring part of tables`)
+		//只有数据的备份只能恢复到已有的表中，不删除数据库
+		const dataOnly = !!info.header && info.header.content == 'data'
+		if (dataOnly && option.swap) throw new Error(`swap cannot be used when restoring a data only backup`)
+		const binlog = info.header ? info.header.binlog : undefined
+		if (option.pointInTime && !binlog) throw new Error(`backup file has no binlog position, create it with binlog option`)
+		//目标数据库，换入时先恢复到临时数据库
+		const target = option.targetDatabase || option.databaseConfig.database
+		const database = option.swap ? `${target}_restore_${moment().format('YYYYMMDDHHmmss')}` : target
+		const loadOption: IRestoreOption = { ...option, databaseConfig: { ...option.databaseConfig, database } }
 		//连接数据库
 		conn = dbu.getConnection(option.databaseConfig)
-		conn.use(option.databaseConfig.database)
 		//数据库重新初始化
 		const dbs = await conn.query('show databases')
-		if (dbs.some(dbi => dbi.Database == option.databaseConfig.database)) {
-			logger.info('restore', `drop old database`)
-			await conn.exec('drop database ??', option.databaseConfig.database)
+		const exists = dbs.some(dbi => dbi.Database == database)
+		if (dataOnly && !exists) throw new Error(`backup contains data only, database ${database} not exists`)
+		if (dataOnly) logger.info('restore', `backup contains data only, restore into existing tables`)
+		else {
+			if (exists && !partial) {
+				logger.info('restore', `drop old database`)
+				await conn.exec('drop database ??', database)
+			}
+			if (!exists || !partial) {
+				logger.info('restore', `create new database ${database}`)
+				await conn.exec('create database ?? default character set = ?', database, option.databaseConfig.charset || 'utf8mb4')
+			}
+		}
+		//开始恢复
+		const progress = new Progress('restore', { total: info.bodyEnd - info.bodyStart + 1, totalOf: 'file', onProgress: option.onProgress })
+		const reader = createBackupReader(info, option.fileEncryptPassword, bytes => progress.addFileBytes(bytes))
+		//只恢复部分表时不恢复存储过程、函数及事件，换入时事件在换入完成后创建
+		let eventsSql = ''
+		const skipEvents = (partial || option.skipEvents) ? true : option.swap ? (text: string) => { eventsSql += text } : false
+		const accept = (table: string) => !partial || filterTables([table], option.tables, option.excludeTables).length > 0
+		const filtered = (partial || skipEvents) ? stream.pipeline(reader, createTableFilterStream(accept, { skipRoutines: partial, skipEvents }), () => { }) : reader
+		const input = stream.pipeline(filtered, progress.meter(), () => { })
+		try {
+			if (option.engine == 'builtin') await loadBuiltin(loadOption, input)
+			else await loadExternal(loadOption, input)
+			progress.finish()
+			if (option.pointInTime) await replayBinlog(option, binlog!, info.header!.database, database)
+		} catch (err) {
+			progress.finish()
+			//恢复到临时数据库失败时删除临时数据库，目标数据库不受影响
+			if (option.swap) await conn.exec('drop database ??', database)
+			throw err
 		}
-		logger.info('restore', `create new database ${option.databaseConfig.database}`)
-		await conn.exec('create database ?? default character set = ?', option.databaseConfig.database, option.databaseConfig.charset || 'utf8mb4')
+		const { sqlBytes, tables } = progress.finish()
 		conn.close()
 		conn = undefined
-		//开始备份
-		await new Promise((resolve, reject) => {
-			const cmd = [
-				'mysql',
-				...option.databaseConfig.username ? [`-u${option.databaseConfig.username}`] : [],
-				...option.databaseConfig.password ? [`-p${option.databaseConfig.password}`] : [],
-				`-h"${option.databaseConfig.host || 'localhost'}" -P${option.databaseConfig.port || 3306} "${option.databaseConfig.database}"`,
-			].join(' ')
-			//创建进程
-			const cp = exec(cmd, { maxBuffer: MAX_BUFFER })
-			cp.once('close', code => resolve((code == 0) ? true : false))
-			//写入数据流
-			const gunzip = zlib.createGunzip()
-			gunzip.on('error', err => {
-				cp.kill()
-				reject(new Error('gunzip: ' + err.message))
-			})
-			fs.createReadStream(filename, { start: backupFileTag!.length }).pipe(gunzip).pipe(createCryptStream(option.fileEncryptPassword)).pipe(cp.stdin!)
-		})
-		logger.success('restore', `database restore successfully`)
+		//换入目标数据库
+		if (option.swap) {
+			const old = await swapDatabase(option, database, target, eventsSql)
+			if (old) logger.info('restore', `old tables of [${target}] are kept in [${old}]`)
+		}
+		const size = fs.statSync(filename).size
+		const duration = Date.now() - start
+		logger.success('restore', `database ${target} restore successfully (${formatBytes(sqlBytes)} sql, ${(duration / 1000).toFixed(1)}s)`)
+		return { file: filename, database: target, size, sqlSize: sqlBytes, duration, tables }
 	} catch (err) {
 		logger.error('restore', err.message)
 		if (conn) conn.close()
@@ -0,0 +1,108 @@
+import moment from 'moment'
+import { dbu } from '../lib/mysql'
+import { logger } from '../lib/logger'
+import { checksumOf, hasVersionTable, loadVersions } from '../lib/version'
+
+/** 版本状态查询选项 */
+export interface IStatusOption {
+	/** 版本文件存放位置 */
+	versionDir: string
+	/** 数据库配置 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/** 数据库中的版本信息 */
+export interface IStatusVersion {
+	/** 版本号 */
+	ver: number
+	/** 版本升级时间 */
+	ctime: Date
+	/** 版本程序是否在升级后被修改过 */
+	modified: boolean
+}
+
+/** 版本状态 */
+export interface IStatusResult {
+	/** 数据库名 */
+	database: string
+	/** 数据库是否存在 */
+	exists: boolean
+	/** 数据库中是否有版本表，数据库不是由本工具创建且没有执行过baseline时为false */
+	versioned: boolean
+	/** 数据库当前版本，没有升级过时为null */
+	head: number | null
+	/** 版本文件中的最新版本 */
+	latest: number
+	/** 已升级的版本 */
+	applied: Array<IStatusVersion>
+	/** 待升级的版本 */
+	pending: Array<number>
+	/** 数据库中存在但版本文件中已不存在的版本 */
+	unknown: Array<IStatusVersion>
+}
+
+/**
+ * 查询数据库版本状态，不会修改数据库
+ * @param option 查询选项
+ */
+export async function status(option: IStatusOption) {
+	let conn: ReturnType<typeof dbu.getConnection> | undefined
+	try {
+		const versions = loadVersions(option.versionDir)
+		const conf = option.databaseConfig
+		conn = dbu.getConnection(conf)
+		//读取数据库中的版本
+		const dbs = await conn.query('show databases')
+		const exists = dbs.some(di => di.Database == conf.database)
+		const versioned = exists && await hasVersionTable(conn, conf.database)
+		const dbRows = versioned ? await conn.query<{ ver: number, ctime: Date, checksum?: string | null }>('select * from ??.?? order by ver asc', conf.database, '_ver') : []
+		//生成状态
+		const result: IStatusResult = {
+			database: conf.database,
+			exists,
+			versioned,
+			head: dbRows.length ? dbRows[dbRows.length - 1].ver : null,
+			latest: versions[versions.length - 1].ver,
+			applied: [],
+			pending: versions.filter(v => !dbRows.some(dv => dv.ver >= v.ver)).map(v => v.ver),
+			unknown: [],
+		}
+		dbRows.forEach(row => {
+			const vi = versions.find(v => v.ver == row.ver)
+			const info = { ver: row.ver, ctime: row.ctime, modified: !!(vi && row.checksum && row.checksum != checksumOf(vi.program)) }
+			if (vi) result.applied.push(info)
+			else result.unknown.push(info)
+		})
+		return result
+	} catch (err) {
+		logger.error('status', err.message)
+		throw err
+	} finally {
+		if (conn) conn.close()
+	}
+}
+
+/**
+ * 以表格形式打印版本状态
+ * @param result 版本状态
+ */
+export function printStatus(result: IStatusResult) {
+	logger.info('status', `database [${result.database}] ${result.exists ? `at version ${result.head === null ? 'none' : result.head.toFixed(2)}` : 'not exists'}, latest version ${result.latest.toFixed(2)}`)
+	if (result.exists && !result.versioned) logger.warn('status', `database [${result.database}] has no version table _ver, run baseline to mark the versions it already has`)
+	//表格行
+	const rows: Array<[string, string, string]> = [
+		...result.applied.map(v => [v.ver.toFixed(2), v.modified ? 'modified' : 'applied', moment(v.ctime).format('YYYY-MM-DD HH:mm:ss')] as [string, string, string]),
+		...result.unknown.map(v => [v.ver.toFixed(2), 'unknown', moment(v.ctime).format('YYYY-MM-DD HH:mm:ss')] as [string, string, string]),
+		...result.pending.map(v => [v.toFixed(2), 'pending', ''] as [string, string, string]),
+	].sort((r1, r2) => parseFloat(r1[0]) - parseFloat(r2[0]))
+	const header: [string, string, string] = ['VERSION', 'STATUS', 'APPLIED AT']
+	//计算列宽并打印
+	const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+	const line = (cols: Array<string>) => cols.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd()
+	logger.logln(line(header))
+	logger.logln(line(widths.map(w => '-'.repeat(w))))
+	rows.forEach(row => logger.logln(line(row)))
+}
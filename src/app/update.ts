@@ -2,13 +2,36 @@ import path from 'path'
 import fs from 'fs'
 import { dbu } from '../lib/mysql'
 import { logger } from '../lib/logger'
+import { mkdirp } from '../lib/utils'
+import { checksumOf, createVersionTable, hasVersionTable, loadVersions } from '../lib/version'
+import { backup, IBackupOption } from './backup'
+import { restore } from './restore'
 
 /** 数据库升级选项 */
 export interface IUpdateOption {
 	/** 版本文件存放位置 */
 	versionDir: string
-	/** 要升级到的版本号，默认最新版本 */
+	/** 要升级到的版本号，默认最新版本，低于当前版本时进行回退 */
 	version?: string
+	/** 
+	 * 演练模式，不修改数据库，而是将每个版本要执行的SQL语句按顺序写入dryRunDir中
+	 * 
+	 * 注意：演练时读取information_schema等查询依然会在数据库中执行，因此依赖前序未执行版本的表结构查询可能会失败
+	 */
+	dryRun?: boolean
+	/** 演练模式下SQL脚本的输出目录，默认为当前目录下的sql目录 */
+	dryRunDir?: string
+	/** 等待其他进程升级完成的超时时间（秒），默认60秒 */
+	lockTimeout?: number
+	/** 已升级版本的程序被修改（校验和不一致）时的处理方式，warn表示警告，error表示报错，默认warn */
+	checksumMismatch?: 'warn' | 'error'
+	/** 使用当前版本程序重新计算并写入已升级版本的校验和，用于确认修改已升级的版本程序 */
+	rebaselineChecksum?: boolean
+	/** 升级前完整备份数据库，备份选项同backup函数，但不支持只备份部分表、结构或数据，演练模式下不备份 */
+	backup?: Omit<IBackupOption, 'databaseConfig' | 'tables' | 'excludeTables' | 'where' | 'schemaOnly' | 'dataOnly'> & {
+		/** 升级失败时是否自动从备份中恢复数据库，默认只输出恢复命令 */
+		restoreOnFailure?: boolean
+	}
 	/** 数据库配置 */
 	databaseConfig: dbu.IMysqlConnOption & {
 		/** 数据库名 */
@@ -17,83 +40,200 @@ export interface IUpdateOption {
 }
 
 
-//加载版本文件
-function loadVersions(versionDir: string) {
-	fs.readdirSync(versionDir).forEach(file => {
-		const ext = path.extname(file)
-		if (ext == '.js' || ext == '.ts') require(path.join(versionDir, file))
+//演练脚本
+interface IDryRunScript {
+	/** 脚本名称 */
+	name: string
+	/** SQL语句 */
+	sqls: Array<string>
+}
+
+/**
+ * 执行升级步骤，如果给定了演练脚本列表，则只记录SQL语句
+ * @param conn 数据库连接
+ * @param scripts 演练脚本列表
+ * @param name 脚本名称
+ * @param step 升级步骤
+ */
+async function runStep(conn: ReturnType<typeof dbu.getConnection>, scripts: Array<IDryRunScript> | undefined, name: string, step: () => Promise<void>) {
+	if (!scripts) return await step()
+	conn.record()
+	try {
+		await step()
+	} finally {
+		scripts.push({ name, sqls: conn.stopRecord() })
+	}
+}
+
+/**
+ * 写出演练脚本
+ * @param dir 输出目录
+ * @param scripts 演练脚本列表
+ */
+function writeDryRunScripts(dir: string, scripts: Array<IDryRunScript>) {
+	dir = path.resolve(process.cwd(), dir)
+	mkdirp(dir)
+	scripts.filter(script => script.sqls.length).forEach((script, i) => {
+		const file = path.join(dir, `${(i + '').padStart(3, '0')}_${script.name}.sql`)
+		fs.writeFileSync(file, script.sqls.map(sql => `${sql};\n`).join(''))
+	})
+	logger.success('update', `dry run sql scripts written to ${dir}`)
+}
+
+/**
+ * 获取升级前备份使用的备份选项，部分备份的选项会被去掉，以免恢复时丢失数据
+ * @param option 升级选项中的备份选项
+ */
+function snapshotOption(option: NonNullable<IUpdateOption['backup']>): Omit<IBackupOption, 'databaseConfig'> {
+	const { restoreOnFailure, ...backupOption } = option
+	return { ...backupOption, tables: undefined, excludeTables: undefined, where: undefined, schemaOnly: undefined, dataOnly: undefined }
+}
+
+/**
+ * 升级失败后从升级前的备份中恢复数据库，未开启自动恢复时输出恢复命令
+ * @param option 升级选项
+ * @param file 备份文件
+ */
+async function recover(option: IUpdateOption, file: string) {
+	const { filenameGenerator, retention, ...backupOption } = snapshotOption(option.backup!)
+	if (!option.backup!.restoreOnFailure) {
+		logger.warn('update', `database may be partially updated, restore it with: mysql-version restore --database ${option.databaseConfig.database} --file "${file}"`)
+		return
+	}
+	logger.info('update', `restore database from ${file}`)
+	await restore({ ...backupOption, file, databaseConfig: option.databaseConfig }).catch(() => {
+		logger.error('update', `restore failed, restore it manually from ${file}`)
 	})
-	return dbu.getVersions()
 }
 
 /**
- * 开始版本升级
- * @param version 版本号，如果为true表示升级到最新
+ * 开始版本升级，如果给定版本低于数据库当前版本，则执行版本回退
+ * @param option 升级选项
  */
 export async function update(option: IUpdateOption) {
 	let conn: ReturnType<typeof dbu.getConnection> | undefined
+	let lockName: string | undefined
+	//升级前的备份文件
+	let snapshot: string | null = null
 	try {
 		//加载版本文件并排序
-		const versions = loadVersions(option.versionDir).sort((v1, v2) => {
-			if (v1.ver == v2.ver) return 0
-			return (v1.ver > v2.ver) ? 1 : -1
-		})
-		const vdict: { [i: number]: number } = {}
-		versions.forEach(vi => {
-			vi.ver = parseFloat(vi.ver.toFixed(2))
-			if (vi.ver <= 0) throw new Error('version cannot <0')
-			if (vdict[vi.ver]) throw new Error(`got same version ${vi.ver} in versions`)
-			vdict[vi.ver] = vi.ver
-		})
-		if (!versions.length) throw new Error('no version found')
+		const versions = loadVersions(option.versionDir)
 		const dest = option.version ? parseFloat(option.version) : versions[versions.length - 1].ver
 		if (!versions.some(v => v.ver == dest)) throw new Error(`unknown version ${dest}`)
 		//创建数据库连接
 		const conf = option.databaseConfig
 		conn = dbu.getConnection(option.databaseConfig)
+		const _conn = conn
+		//获取升级锁，防止多个进程同时升级
+		const lockTimeout = option.lockTimeout === undefined ? 60 : option.lockTimeout
+		const lockKey = `mysql-version:${conf.database}`
+		if (!await conn.lock(lockKey, lockTimeout)) {
+			const host = await conn.lockHolder(lockKey)
+			throw new Error(`another migration is running on host ${host || 'unknown'}, wait lock timeout after ${lockTimeout}s`)
+		}
+		lockName = lockKey
+		//演练脚本
+		const scripts: Array<IDryRunScript> | undefined = option.dryRun ? [] : undefined
 		//数据库初始化
 		const dbs = await conn.query('show databases')
-		if (!dbs.some(di => di.Database == conf.database)) {
+		const dbExists = dbs.some(di => di.Database == conf.database)
+		if (!dbExists) await runStep(conn, scripts, 'init', async () => {
 			logger.info('update', `initial database [${conf.database}]`)
-			await conn.exec('create database ?? default character set = ?', conf.database, conf.charset)
+			await _conn.exec('create database ?? default character set = ?', conf.database, conf.charset)
 			//创建版本表
-			await conn.mktbl(`${conf.database}._ver`)
-				.column('ver', 'decimal', { length: '20,2', comment: '版本号' })
-				.column('ctime', 'datetime', { comment: '版本创建时间' })
-				.primary('ver')
-				.index('ctime')
-				.done()
+			await createVersionTable(_conn, conf.database)
+			await _conn.use(conf.database)
+		})
+		else {
+			//数据库不是由本工具创建时没有版本表，需要先标记数据库中已有的版本
+			if (!await hasVersionTable(conn, conf.database)) throw new Error(`database ${conf.database} exists but has no version table _ver, run baseline to mark the versions it already has`)
+			await conn.use(conf.database)
+		}
+		//获取版本列表，演练时数据库可能尚未创建
+		const dbRows = (!dbExists && scripts) ? [] : await conn.query<{ ver: number, checksum?: string | null }>('select * from _ver order by ver asc')
+		const dbVersions = dbRows.map(vi => vi.ver)
+		//校验已升级版本的程序是否被修改，演练时只检查不写入校验和，写入校验和的语句也不记录到演练脚本中
+		if (dbExists) {
+			//旧版本的_ver表中没有校验和字段
+			if (!scripts && (!dbRows.length || !('checksum' in dbRows[0]))) {
+				const cols = await _conn.query('select * from information_schema.COLUMNS where TABLE_SCHEMA=? and TABLE_NAME=? and COLUMN_NAME=?', conf.database, '_ver', 'checksum')
+				if (!cols.length) await _conn.uptbl('_ver').addColumn('checksum', 'varchar', { length: 64, comment: '版本程序校验和' })
+			}
+			const mismatches: Array<number> = []
+			for (let i = 0; i < dbRows.length; i++) {
+				const row = dbRows[i]
+				const vi = versions.find(v => v.ver == row.ver)
+				if (!vi) continue
+				const checksum = checksumOf(vi.program)
+				if (row.checksum == checksum) continue
+				//没有校验和或者重新设定校验和时，写入当前校验和
+				if (!row.checksum || option.rebaselineChecksum) {
+					if (!scripts) await _conn.exec('update _ver set checksum = ? where ver = ?', checksum, row.ver)
+				}
+				else mismatches.push(row.ver)
+			}
+			if (mismatches.length) {
+				const msg = `program of applied version ${mismatches.join(',')} has been modified`
+				if (option.checksumMismatch == 'error') throw new Error(msg)
+				logger.warn('update', msg)
+			}
+		}
+		//升级前备份数据库
+		const takeSnapshot = async () => {
+			if (!option.backup || scripts || !dbExists) return
+			const summary = await backup({ ...snapshotOption(option.backup), databaseConfig: conf })
+			snapshot = summary ? summary.file : null
+		}
+		//当前版本
+		const current = dbVersions.length ? Math.max(...dbVersions) : 0
+		//目标版本低于当前版本，进行回退
+		if (dest < current) {
+			//需要回退的版本，从高到低依次回退
+			const downVers = dbVersions.filter(dv => dv > dest).sort((v1, v2) => v2 - v1)
+			await takeSnapshot()
+			for (let i = 0; i < downVers.length; i++) {
+				const ver = downVers[i]
+				const vi = versions.find(v => v.ver == ver)
+				if (!vi) throw new Error(`version ${ver} not found in versions, cannot rollback`)
+				if (!vi.down) throw new Error(`version ${ver} has no down program, cannot rollback`)
+				const down = vi.down
+				logger.info('update', `rollback version ${ver}`)
+				await runStep(conn, scripts, `${ver}.down`, async () => {
+					await down(_conn)
+					//删除版本号
+					await _conn.exec('delete from _ver where ver = ?', ver)
+				})
+			}
+			if (!scripts) logger.success('update', `rollback database to ${dest} successfully`)
 		}
-		await conn.use(conf.database)
-		//获取版本列表
-		const dbVersions = await conn.query<{ ver: number }>('select * from _ver order by ver asc').then(res => res.map(vi => vi.ver))
-		//获取开始版本
-		const [fromVer] = versions.filter(v => !dbVersions.some(dv => dv >= v.ver))
-		if (!fromVer) logger.warn('updater', 'nothing to be updated')
 		else {
-			//开始升级
-			let updated = false
-			for (let i = 0; i < versions.length; i++) {
-				const { ver, program } = versions[i]
-				//如果数据库中存在更高的版本则忽略
-				if (dbVersions.some(dbv => dbv >= ver)) continue
-				//如果高于给定版本则忽略
-				if (ver > dest) continue
-				//否则进行升级
-				await program(conn)
-				//写入版本号
-				await conn.exec('insert into _ver set ?', { ver, ctime: new Date() })
-				updated = true
+			//需要升级的版本，忽略数据库中存在更高版本的版本及高于给定版本的版本
+			const upVers = versions.filter(v => !dbVersions.some(dbv => dbv >= v.ver) && v.ver <= dest)
+			if (!upVers.length) logger.warn('updater', 'nothing to be updated')
+			else {
+				await takeSnapshot()
+				//开始升级
+				for (let i = 0; i < upVers.length; i++) {
+					const { ver, program } = upVers[i]
+					await runStep(conn, scripts, `${ver}`, async () => {
+						await program(_conn)
+						//写入版本号
+						await _conn.exec('insert into _ver set ?', { ver, ctime: new Date(), checksum: checksumOf(program) })
+					})
+				}
+				if (!scripts) logger.success('update', `update database to ${dest} successfully`)
 			}
-			if (updated) logger.success('update', `update database to ${dest} successfully`)
-			else logger.warn('updater', 'nothing to be updated')
 		}
-		conn.close()
-		conn = undefined
+		if (scripts) writeDryRunScripts(option.dryRunDir || 'sql', scripts)
 	} catch (err) {
 		logger.error('update', err.message)
 		if (err.sql) console.log(err.sql)
-		if (conn) conn.close()
+		if (snapshot) await recover(option, snapshot)
 		throw err
+	} finally {
+		if (conn) {
+			if (lockName) await conn.unlock(lockName).catch(() => { })
+			conn.close()
+		}
 	}
 }
\ No newline at end of file
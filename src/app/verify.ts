@@ -0,0 +1,149 @@
+import fs from 'fs'
+import path from 'path'
+import moment from 'moment'
+import { BACKUP_FILE_TAG } from '../lib/const'
+import { logger } from '../lib/logger'
+import { dbu } from '../lib/mysql'
+import { readBackupFile } from '../lib/bakfile'
+import { DUMP_DRIVER_OPTION, ITableStats, tableStats } from '../lib/dumper'
+import { findBackup, IBackupSelector } from './catalog'
+import { restore } from './restore'
+
+/** 备份校验选项 */
+export interface IVerifyOption {
+	/** 备份文件创建时的加密密码 */
+	fileEncryptPassword?: string | Buffer
+	/** 备份目录 */
+	backupDir?: string
+	/** 备份文件标记 */
+	backupFileTag?: string | Buffer
+	/** 要校验的文件名称 */
+	file?: string
+	/** 未给定文件名称时，从备份目录中选择备份文件的条件，默认选择最新的备份 */
+	select?: IBackupSelector
+	/** 恢复引擎，同restore */
+	engine?: 'external' | 'builtin'
+	/**
+	 * 比较的对象，metadata表示备份文件中记录的统计信息（备份时需要开启stats选项），source表示当前数据库
+	 *
+	 * 默认备份文件中有统计信息时使用metadata，否则使用source
+	 */
+	compareWith?: 'metadata' | 'source'
+	/** 数据库配置，database为比较的源数据库，临时数据库也创建在此服务器上 */
+	databaseConfig: dbu.IMysqlConnOption & {
+		/** 数据库名 */
+		database: string
+	}
+}
+
+/** 单个表的校验结果 */
+export interface ITableVerifyResult {
+	/** 表名称 */
+	table: string
+	/** 期望的统计信息，源中没有此表时为null */
+	expected: ITableStats | null
+	/** 恢复后的统计信息，恢复后没有此表时为null */
+	actual: ITableStats | null
+	/** 是否一致 */
+	passed: boolean
+}
+
+/** 备份校验报告 */
+export interface IVerifyReport {
+	/** 备份文件 */
+	file: string
+	/** 恢复使用的临时数据库 */
+	scratchDatabase: string
+	/** 比较的对象 */
+	compareWith: 'metadata' | 'source'
+	/** 是否通过校验 */
+	passed: boolean
+	/** 各表的校验结果 */
+	tables: Array<ITableVerifyResult>
+	/** 恢复失败时的错误信息 */
+	error?: string
+}
+
+/**
+ * 校验备份是否可以恢复：将备份恢复到临时数据库中，比较各表的行数及校验和，完成后删除临时数据库
+ * @param option 校验选项
+ */
+export async function verifyBackup(option: IVerifyOption): Promise<IVerifyReport> {
+	let conn: ReturnType<typeof dbu.getConnection> | undefined
+	let scratch: string | undefined
+	try {
+		let file = option.file || await (async () => {
+			if (!option.backupDir) return ''
+			const item = await findBackup({ backupDir: option.backupDir, backupFileTag: option.backupFileTag, database: option.databaseConfig.database }, option.select)
+			return item ? item.file : ''
+		})()
+		if (!file) throw new Error(`backup file is required`)
+		file = path.resolve(process.cwd(), file)
+		if (!fs.existsSync(file)) throw new Error(`file ${file} not exists`)
+		const { header } = readBackupFile(file, option.backupFileTag ? Buffer.from(option.backupFileTag) : BACKUP_FILE_TAG)
+		if (header && header.content == 'data') throw new Error(`backup contains data only, it cannot be restored into a new database`)
+		const compareWith = option.compareWith || ((header && header.stats) ? 'metadata' : 'source')
+		if (compareWith == 'metadata' && !(header && header.stats)) throw new Error(`backup file has no table stats, create it with stats option`)
+		scratch = `${option.databaseConfig.database}_verify_${moment().format('YYYYMMDDHHmmss')}`
+		const report: IVerifyReport = { file, scratchDatabase: scratch, compareWith, passed: false, tables: [] }
+		conn = dbu.getConnection(option.databaseConfig, DUMP_DRIVER_OPTION)
+		const _conn = conn
+		//恢复到临时数据库，恢复失败时返回报告
+		try {
+			await restore({
+				file,
+				backupDir: '',
+				backupFileTag: option.backupFileTag,
+				fileEncryptPassword: option.fileEncryptPassword,
+				engine: option.engine,
+				targetDatabase: scratch,
+				skipEvents: true,
+				databaseConfig: option.databaseConfig,
+			})
+		} catch (err) {
+			report.error = err.message
+			logger.error('verify', `backup ${file} cannot be restored`)
+			return report
+		}
+		//获取期望的统计信息
+		const baseTables = async (database: string) => {
+			const res = await _conn.query('select TABLE_NAME from information_schema.TABLES where TABLE_SCHEMA = ? and TABLE_TYPE != ?', database, 'VIEW')
+			return res.map(r => r.TABLE_NAME as string)
+		}
+		//有数据过滤条件的表与源数据库中的完整数据不一致，不参与比较
+		const filtered = (header && header.filtered) || []
+		let expected: { [table: string]: ITableStats }
+		if (compareWith == 'metadata') expected = header!.stats!
+		else {
+			const tables = (await baseTables(option.databaseConfig.database)).filter(t => !filtered.includes(t))
+			expected = await tableStats(conn, option.databaseConfig.database, (header && header.tables) ? tables.filter(t => header.tables!.includes(t)) : tables)
+		}
+		const restored = (await baseTables(scratch)).filter(t => !filtered.includes(t))
+		const actual = await tableStats(conn, scratch, restored)
+		//只备份表结构时只比较表是否存在
+		const schemaOnly = !!header && header.content == 'schema'
+		//元数据中不记录有数据过滤条件的表，因此只与源数据库比较时检查多余的表
+		const tables = [...Object.keys(expected), ...(compareWith == 'source') ? restored.filter(t => !expected[t]) : []].sort()
+		report.tables = tables.map(table => {
+			const exp = expected[table] || null
+			const act = actual[table] || null
+			const passed = !!exp && !!act && (schemaOnly || (exp.rows == act.rows && exp.checksum == act.checksum))
+			return { table, expected: exp, actual: act, passed }
+		})
+		report.passed = report.tables.every(t => t.passed)
+		if (report.passed) logger.success('verify', `backup ${file} verified, ${report.tables.length} tables matched`)
+		else logger.error('verify', `backup ${file} verify failed, mismatched tables: ${report.tables.filter(t => !t.passed).map(t => t.table).join(',')}`)
+		return report
+	} catch (err) {
+		logger.error('verify', err.message)
+		throw err
+	} finally {
+		//删除临时数据库
+		if (conn) {
+			await conn.exec('drop database if exists ??', scratch).catch(() => {
+				logger.warn('verify', `drop scratch database ${scratch} failed, drop it manually`)
+			})
+			conn.close()
+		}
+	}
+}
@@ -0,0 +1,384 @@
+#!/usr/bin/env node
+import fs from 'fs'
+import path from 'path'
+import { logger } from './lib/logger'
+import { update, IUpdateOption } from './app/update'
+import { backup, IBackupOption } from './app/backup'
+import { restore, IRestoreOption } from './app/restore'
+import { status, printStatus } from './app/status'
+import { IRetentionPolicy } from './app/catalog'
+import { verifyBackup } from './app/verify'
+import { generateVersion } from './app/generate'
+import { checkDrift } from './app/diff'
+import { baseline } from './app/baseline'
+
+/** 配置文件内容 */
+interface ICliConfig {
+	/** 版本文件存放位置 */
+	versionDir?: string
+	/** 备份目录 */
+	backupDir?: string
+	/** 备份文件加密密码 */
+	fileEncryptPassword?: string
+	/** 备份保留策略 */
+	retention?: IRetentionPolicy
+	/** 数据库配置 */
+	databaseConfig?: Partial<IUpdateOption['databaseConfig']>
+}
+
+/** 命令行参数 */
+interface ICliArgs {
+	/** 命令 */
+	command: string
+	/** 位置参数 */
+	params: Array<string>
+	/** 选项 */
+	flags: { [i: string]: string | true }
+}
+
+const USAGE = `Usage: mysql-version <command> [options]
+
+Commands:
+  update              update database to the latest version (or --version)
+  status              show applied, pending and unknown versions
+  backup              backup database into backup directory
+  restore             restore database from a backup file (default the latest)
+  verify              restore a backup into a scratch database and compare table checksums
+  baseline <version>  mark versions up to the version as applied on an existing database without running them
+  drift               check whether tables of the database match what its applied versions create
+  new <version>       create a new version file in version directory
+  generate [version]  generate a version file (default 1.00) from tables of an existing database
+
+Options:
+  --config <file>     config file (.json or .js), default mysql-version.json or mysql-version.js
+  --host <host>       database host, env MYSQL_HOST
+  --port <port>       database port, env MYSQL_PORT
+  --user <user>       database username, env MYSQL_USER
+  --password <pwd>    database password, env MYSQL_PASSWORD
+  --database <name>   database name, env MYSQL_DATABASE
+  --charset <charset> database charset, env MYSQL_CHARSET
+  --option-file <file>  mysql option file such as ~/.my.cnf to read connection settings from
+  --login-path <name> extra group to read from the option file
+  --version-dir <dir> version directory
+  --backup-dir <dir>  backup directory
+  --encrypt-password <pwd>  backup file encrypt password, env MYSQL_VERSION_ENCRYPT_PASSWORD
+  --version <ver>     target version of update
+  --dry-run           write sql scripts instead of updating database
+  --dry-run-dir <dir> output directory of dry run sql scripts
+  --backup            backup database into backup directory before update
+  --restore-on-failure  restore the backup when update failed, implies --backup
+  --tables <list>     comma separated tables to backup or restore, supports * and ?
+  --exclude-tables <list>  comma separated tables not to backup or restore
+  --schema-only       backup table structures only
+  --data-only         backup table data only
+  --engine <engine>   backup/restore engine, external (mysqldump/mysql, default) or builtin
+  --binlog            record binlog position in the backup for point in time recovery
+  --stats             record row counts and checksums of tables in the backup for verify
+  --file <file>       backup file to restore
+  --before <time>     restore the latest backup created at or before the time
+  --backup-version <ver>  restore the latest backup of the database version
+  --compare-with <target>  verify against metadata (stats recorded in backup) or source database
+  --target-database <name>  restore into another database instead of --database
+  --swap              restore into a staging database, then swap its tables into the target
+  --drop-old          drop the old tables after --swap instead of keeping them
+  --stop-datetime <time>  replay binlog after restoring until the time (point in time recovery)
+  --stop-file <file>  replay binlog until the binlog file
+  --stop-position <pos>  replay binlog until the position of the last binlog file
+  --js                create javascript version file instead of typescript
+`
+
+//不带值的选项，不会使用下一个参数作为值
+const BOOLEAN_FLAGS = ['help', 'dry-run', 'backup', 'restore-on-failure', 'schema-only', 'data-only', 'binlog', 'stats', 'swap', 'drop-old', 'js']
+
+/**
+ * 解析命令行参数
+ * @param argv 参数列表
+ */
+function parseArgs(argv: Array<string>): ICliArgs {
+	const params: Array<string> = []
+	const flags: ICliArgs['flags'] = {}
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]
+		if (!arg.startsWith('--')) {
+			params.push(arg)
+			continue
+		}
+		//支持--key=value和--key value两种形式
+		const [key, value] = arg.slice(2).split(/=(.*)/s)
+		if (BOOLEAN_FLAGS.includes(key)) {
+			if (value !== undefined) throw new Error(`option --${key} does not take a value`)
+			flags[key] = true
+		}
+		else if (value !== undefined) flags[key] = value
+		else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) flags[key] = argv[++i]
+		else flags[key] = true
+	}
+	return { command: params.shift() || '', params, flags }
+}
+
+/**
+ * 获取字符串类型的选项值
+ * @param args 命令行参数
+ * @param key 选项名称
+ */
+function strFlag(args: ICliArgs, key: string) {
+	const value = args.flags[key]
+	return (typeof value == 'string') ? value : undefined
+}
+
+/**
+ * 获取逗号分隔的列表选项值
+ * @param args 命令行参数
+ * @param key 选项名称
+ */
+function listFlag(args: ICliArgs, key: string) {
+	const value = strFlag(args, key)
+	return value ? value.split(',').map(s => s.trim()).filter(s => !!s) : undefined
+}
+
+/**
+ * 获取备份恢复引擎选项值
+ * @param args 命令行参数
+ */
+function engineFlag(args: ICliArgs) {
+	const engine = strFlag(args, 'engine')
+	if (engine !== undefined && engine != 'external' && engine != 'builtin') throw new Error(`unknown engine ${engine}`)
+	return engine as 'external' | 'builtin' | undefined
+}
+
+/**
+ * 读取配置文件
+ * @param file 配置文件路径，不指定时查找当前目录下的默认配置文件
+ * @returns 配置内容和配置文件所在目录
+ */
+function loadConfig(file?: string): { config: ICliConfig, dir: string } {
+	const files = file ? [path.resolve(process.cwd(), file)] : ['mysql-version.json', 'mysql-version.js'].map(f => path.resolve(process.cwd(), f))
+	for (let i = 0; i < files.length; i++) {
+		if (!fs.existsSync(files[i])) continue
+		const config = (path.extname(files[i]) == '.json') ? JSON.parse(fs.readFileSync(files[i]) + '') : require(files[i])
+		return { config: config.default || config, dir: path.dirname(files[i]) }
+	}
+	if (file) throw new Error(`config file ${file} not exists`)
+	return { config: {}, dir: process.cwd() }
+}
+
+/**
+ * 合并配置文件、环境变量和命令行选项，优先级依次升高
+ * @param args 命令行参数
+ */
+function resolveOption(args: ICliArgs) {
+	const str = (key: string) => strFlag(args, key)
+	const { config, dir } = loadConfig(str('config'))
+	const env = process.env
+	const conf = config.databaseConfig || {}
+	const port = str('port') || env.MYSQL_PORT || conf.port
+	const database = str('database') || env.MYSQL_DATABASE || conf.database || ''
+	//目录相对于配置文件所在目录
+	const versionDir = str('version-dir') || config.versionDir
+	const backupDir = str('backup-dir') || config.backupDir
+	return {
+		versionDir: versionDir ? path.resolve(dir, versionDir) : '',
+		backupDir: backupDir ? path.resolve(dir, backupDir) : '',
+		fileEncryptPassword: str('encrypt-password') || env.MYSQL_VERSION_ENCRYPT_PASSWORD || config.fileEncryptPassword,
+		retention: config.retention,
+		databaseConfig: {
+			host: str('host') || env.MYSQL_HOST || conf.host,
+			port: port ? parseInt(port + '') : undefined,
+			username: str('user') || env.MYSQL_USER || conf.username,
+			password: str('password') || env.MYSQL_PASSWORD || conf.password,
+			charset: str('charset') || env.MYSQL_CHARSET || conf.charset,
+			optionFile: str('option-file') || conf.optionFile,
+			loginPath: str('login-path') || conf.loginPath,
+			database,
+		},
+	}
+}
+
+/**
+ * 版本目录中有ts文件时，尝试注册ts-node
+ * @param versionDir 版本目录
+ */
+function registerTypescript(versionDir: string) {
+	if (!fs.readdirSync(versionDir).some(file => path.extname(file) == '.ts')) return
+	try {
+		require('ts-node/register')
+	} catch (err) {
+		throw new Error('ts-node is required to load typescript version files')
+	}
+}
+
+/**
+ * 获取版本文件路径
+ * @param versionDir 版本目录
+ * @param ver 版本号
+ * @param js 是否是js文件
+ */
+function versionFile(versionDir: string, ver: string, js: boolean) {
+	if (!/^\d+(\.\d{1,2})?$/.test(ver || '')) throw new Error(`invalid version ${ver}, version should be like 1.02`)
+	const version = parseFloat(ver).toFixed(2)
+	const file = path.join(versionDir, `v${version}.${js ? 'js' : 'ts'}`)
+	if (fs.existsSync(file)) throw new Error(`file ${file} already exists`)
+	if (!fs.existsSync(versionDir)) fs.mkdirSync(versionDir, { recursive: true })
+	return { file, version }
+}
+
+/**
+ * 创建新的版本文件
+ * @param versionDir 版本目录
+ * @param ver 版本号
+ * @param js 是否创建js文件
+ */
+function createVersionFile(versionDir: string, ver: string, js: boolean) {
+	const { file, version } = versionFile(versionDir, ver, js)
+	const content = js ? [
+		`const { dbu } = require('mysql-version')`,
+		``,
+		`dbu.version(${version}, async conn => {`,
+		`})`,
+		``,
+	] : [
+		`import { dbu } from 'mysql-version'`,
+		``,
+		`dbu.version(${version}, async conn => {`,
+		`})`,
+		``,
+	]
+	fs.writeFileSync(file, content.join('\n'))
+	logger.success('new', `version file ${file} created`)
+}
+
+//是否已经开始执行命令，命令执行过程中的错误会由各功能自行输出
+let running = false
+
+async function main() {
+	const args = parseArgs(process.argv.slice(2))
+	if (!args.command || args.flags.help) {
+		console.log(USAGE)
+		return
+	}
+	const option = resolveOption(args)
+	if (!['update', 'status', 'backup', 'restore', 'verify', 'baseline', 'drift', 'new', 'generate'].includes(args.command)) throw new Error(`unknown command ${args.command}`)
+	//参数校验
+	if (['update', 'status', 'baseline', 'drift', 'new', 'generate'].includes(args.command) && !option.versionDir) throw new Error('version directory is required')
+	if (args.command != 'new' && !option.databaseConfig.database) throw new Error('database name is required')
+	engineFlag(args)
+	if (['update', 'status', 'baseline', 'drift'].includes(args.command)) registerTypescript(option.versionDir)
+	running = !['new', 'generate'].includes(args.command)
+	switch (args.command) {
+		case 'update': {
+			const updateOption: IUpdateOption = {
+				versionDir: option.versionDir,
+				databaseConfig: option.databaseConfig,
+				version: strFlag(args, 'version'),
+				dryRun: !!args.flags['dry-run'],
+				dryRunDir: strFlag(args, 'dry-run-dir'),
+				backup: (args.flags.backup || args.flags['restore-on-failure']) ? {
+					backupDir: option.backupDir,
+					fileEncryptPassword: option.fileEncryptPassword,
+					restoreOnFailure: !!args.flags['restore-on-failure'],
+				} : undefined,
+			}
+			await update(updateOption)
+			break
+		}
+		case 'status': {
+			printStatus(await status({ versionDir: option.versionDir, databaseConfig: option.databaseConfig }))
+			break
+		}
+		case 'backup': {
+			const backupOption: IBackupOption = {
+				backupDir: option.backupDir,
+				fileEncryptPassword: option.fileEncryptPassword,
+				retention: option.retention,
+				tables: listFlag(args, 'tables'),
+				excludeTables: listFlag(args, 'exclude-tables'),
+				schemaOnly: !!args.flags['schema-only'],
+				dataOnly: !!args.flags['data-only'],
+				engine: engineFlag(args),
+				binlog: !!args.flags.binlog,
+				stats: !!args.flags.stats,
+				databaseConfig: option.databaseConfig,
+			}
+			await backup(backupOption)
+			break
+		}
+		case 'restore': {
+			const restoreOption: IRestoreOption = {
+				backupDir: option.backupDir,
+				file: strFlag(args, 'file'),
+				select: {
+					before: strFlag(args, 'before'),
+					version: strFlag(args, 'backup-version') ? parseFloat(strFlag(args, 'backup-version')!) : undefined,
+				},
+				tables: listFlag(args, 'tables'),
+				excludeTables: listFlag(args, 'exclude-tables'),
+				engine: engineFlag(args),
+				targetDatabase: strFlag(args, 'target-database'),
+				swap: !!args.flags.swap,
+				dropOld: !!args.flags['drop-old'],
+				pointInTime: (args.flags['stop-datetime'] || args.flags['stop-file'] || args.flags['stop-position']) ? {
+					stopDatetime: strFlag(args, 'stop-datetime'),
+					stopFile: strFlag(args, 'stop-file'),
+					stopPosition: strFlag(args, 'stop-position') ? parseInt(strFlag(args, 'stop-position')!) : undefined,
+				} : undefined,
+				fileEncryptPassword: option.fileEncryptPassword,
+				databaseConfig: option.databaseConfig,
+			}
+			await restore(restoreOption)
+			break
+		}
+		case 'verify': {
+			const compareWith = strFlag(args, 'compare-with')
+			if (compareWith !== undefined && compareWith != 'metadata' && compareWith != 'source') throw new Error(`unknown compare target ${compareWith}`)
+			const report = await verifyBackup({
+				backupDir: option.backupDir,
+				file: strFlag(args, 'file'),
+				select: {
+					before: strFlag(args, 'before'),
+					version: strFlag(args, 'backup-version') ? parseFloat(strFlag(args, 'backup-version')!) : undefined,
+				},
+				engine: engineFlag(args),
+				compareWith: compareWith as 'metadata' | 'source' | undefined,
+				fileEncryptPassword: option.fileEncryptPassword,
+				databaseConfig: option.databaseConfig,
+			})
+			//校验结果已经输出，失败时以非0状态退出
+			if (!report.passed) throw new Error('backup verify failed')
+			break
+		}
+		case 'baseline': {
+			if (!args.params[0]) throw new Error('baseline version is required')
+			await baseline({ versionDir: option.versionDir, version: args.params[0], databaseConfig: option.databaseConfig })
+			break
+		}
+		case 'drift': {
+			const report = await checkDrift({ versionDir: option.versionDir, databaseConfig: option.databaseConfig })
+			//检查结果已经输出，存在漂移时以非0状态退出
+			if (!report.passed) throw new Error('schema drift detected')
+			break
+		}
+		case 'generate': {
+			const js = !!args.flags.js
+			const { file, version } = versionFile(option.versionDir, args.params[0] || '1', js)
+			running = true
+			await generateVersion({
+				version: parseFloat(version),
+				js,
+				tables: listFlag(args, 'tables'),
+				excludeTables: listFlag(args, 'exclude-tables'),
+				file,
+				databaseConfig: option.databaseConfig,
+			})
+			break
+		}
+		case 'new': {
+			createVersionFile(option.versionDir, args.params[0], !!args.flags.js)
+			break
+		}
+	}
+}
+
+main().then(() => process.exit(0)).catch(err => {
+	if (!running) logger.error('cli', err.message)
+	process.exit(1)
+})
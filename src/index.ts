@@ -1,5 +1,12 @@
 export * from './lib/mysql'
 export * from './app/update'
+export * from './app/baseline'
 export * from './app/backup'
 export * from './app/restore'
+export * from './app/status'
+export * from './app/inspect'
+export * from './app/catalog'
+export * from './app/verify'
+export * from './app/generate'
+export * from './app/diff'
 export * from './lib/logger'
\ No newline at end of file
@@ -0,0 +1,236 @@
+import fs from 'fs'
+import zlib from 'zlib'
+import crypto from 'crypto'
+import stream from 'stream'
+import { createCryptStream, createDecryptStream, createEncryptStream } from './utils'
+import { ITableStats } from './dumper'
+
+/*
+ * 备份文件格式
+ *
+ * 旧版（格式1）：文件标识 + gzip(异或加密(SQL))
+ * 格式2：文件标识 + 格式版本(1字节) + 文件头长度(4字节) + 文件头(JSON) + 数据 + 文件尾
+ *   文件头中记录数据库名称、版本、备份时间、数据库及mysqldump版本、压缩及加密方式
+ *   数据为 aes-256-gcm(gzip(SQL))，没有密码时不加密
+ *   文件尾为 认证标签(16字节，加密时才有) + 数据的sha256(32字节)
+ */
+
+/** 当前备份文件格式版本 */
+export const BACKUP_FORMAT_VERSION = 2
+
+/** 备份元数据 */
+export interface IBackupMeta {
+	/** 数据库名称 */
+	database: string
+	/** 备份时数据库的版本（_ver中的最新版本），没有版本时为null */
+	version: number | null
+	/** 备份时间（ISO格式） */
+	time: string
+	/** 数据库服务器版本 */
+	serverVersion: string | null
+	/** mysqldump版本 */
+	dumpVersion: string | null
+	/** 备份内容，all表示结构和数据，schema表示只有结构，data表示只有数据 */
+	content?: 'all' | 'schema' | 'data'
+	/** 备份的表，备份全部表时不记录 */
+	tables?: Array<string>
+	/** 使用where条件只备份了部分数据的表，没有时不记录 */
+	filtered?: Array<string>
+	/** 备份时的二进制日志位置，用于按时间点恢复 */
+	binlog?: IBinlogPosition
+	/** 备份开始前各表的行数及校验和，用于校验备份 */
+	stats?: { [table: string]: ITableStats }
+}
+
+/** 二进制日志位置 */
+export interface IBinlogPosition {
+	/** 二进制日志文件 */
+	file: string
+	/** 日志位置 */
+	position: number
+	/** 已执行的GTID集合，未开启GTID时没有 */
+	gtid?: string
+}
+
+/** 备份文件头 */
+export interface IBackupFileHeader extends IBackupMeta {
+	/** 加密方式 */
+	encryption: 'none' | 'aes-256-gcm'
+	/** 压缩方式 */
+	compression: 'gzip'
+	/** 密钥生成使用的盐（hex） */
+	salt?: string
+	/** 初始向量（hex） */
+	iv?: string
+	/** 数据的哈希算法 */
+	hash?: 'sha256'
+}
+
+/** 备份文件信息 */
+export interface IBackupFileInfo {
+	/** 文件路径 */
+	file: string
+	/** 文件格式版本 */
+	format: number
+	/** 文件头，旧版文件没有文件头 */
+	header: IBackupFileHeader | null
+	/** 数据开始位置 */
+	bodyStart: number
+	/** 数据结束位置（包含） */
+	bodyEnd: number
+	/** 文件尾 */
+	trailer: Buffer
+}
+
+//认证标签长度
+const AUTH_TAG_LENGTH = 16
+
+//哈希长度
+const HASH_LENGTH = 32
+
+/**
+ * 读取备份文件信息，如果不是备份文件则抛出异常
+ * @param file 文件路径
+ * @param tag 备份文件标识
+ */
+export function readBackupFile(file: string, tag: Buffer): IBackupFileInfo {
+	const fd = fs.openSync(file, 'r')
+	try {
+		const size = fs.fstatSync(fd).size
+		const read = (position: number, length: number) => {
+			const buffer = Buffer.alloc(length)
+			const count = fs.readSync(fd, buffer, 0, length, position)
+			return buffer.slice(0, count)
+		}
+		//校验文件标识
+		if (Buffer.compare(read(0, tag.length), tag) != 0) throw new Error(`file ${file} is not a backup file`)
+		const format = read(tag.length, 1)[0]
+		//旧版文件直接跟随gzip数据（0x1f开头）
+		if (format == 0x1f) return { file, format: 1, header: null, bodyStart: tag.length, bodyEnd: size - 1, trailer: Buffer.alloc(0) }
+		if (format != BACKUP_FORMAT_VERSION) throw new Error(`unsupported backup file format ${format}`)
+		//读取文件头
+		const headerLength = read(tag.length + 1, 4).readUInt32BE(0)
+		const headerStart = tag.length + 5
+		if (headerStart + headerLength > size) throw new Error(`backup file ${file} is truncated`)
+		const header: IBackupFileHeader = JSON.parse(read(headerStart, headerLength) + '')
+		//读取文件尾
+		const trailerLength = ((header.encryption == 'aes-256-gcm') ? AUTH_TAG_LENGTH : 0) + (header.hash ? HASH_LENGTH : 0)
+		const bodyStart = headerStart + headerLength
+		if (bodyStart + trailerLength > size) throw new Error(`backup file ${file} is truncated`)
+		return { file, format, header, bodyStart, bodyEnd: size - trailerLength - 1, trailer: read(size - trailerLength, trailerLength) }
+	} finally {
+		fs.closeSync(fd)
+	}
+}
+
+/**
+ * 创建备份文件写入器，向input中写入SQL数据即可
+ * 
+ * 元数据可以是Promise（如需要从备份数据中获取的二进制日志位置），在元数据确定之前写入的数据会被缓存
+ * @param file 文件路径
+ * @param tag 备份文件标识
+ * @param meta 备份元数据
+ * @param password 加密密码，不给定则不加密
+ * @param onData 数据写入回调，参数为写入文件的数据字节数，用于统计进度
+ */
+export function createBackupWriter(file: string, tag: Buffer, meta: IBackupMeta | Promise<IBackupMeta>, password?: string | Buffer, onData?: (bytes: number) => void) {
+	const encrypt = !!(password && password.length)
+	const salt = crypto.randomBytes(16)
+	const iv = crypto.randomBytes(12)
+	const ws = fs.createWriteStream(file)
+	//数据流
+	const gzip = zlib.createGzip()
+	const done = new Promise<void>((resolve, reject) => {
+		ws.on('close', () => resolve())
+		ws.on('error', reject)
+		gzip.on('error', reject)
+		Promise.resolve(meta).catch(err => {
+			ws.destroy()
+			reject(err)
+		})
+	})
+	const cipher = encrypt ? createEncryptStream(password!, salt, iv) : null
+	const body: stream.Readable = cipher ? gzip.pipe(cipher) : gzip
+	//计算数据哈希
+	const hash = crypto.createHash('sha256')
+	body.on('data', chunk => {
+		hash.update(chunk)
+		if (onData) onData(chunk.length)
+	})
+	body.pause()
+	//元数据确定后写入文件头，然后开始写入数据
+	Promise.resolve(meta).then(meta => {
+		const header: IBackupFileHeader = encrypt
+			? { ...meta, encryption: 'aes-256-gcm', compression: 'gzip', salt: salt.toString('hex'), iv: iv.toString('hex'), hash: 'sha256' }
+			: { ...meta, encryption: 'none', compression: 'gzip', hash: 'sha256' }
+		const headerBuffer = Buffer.from(JSON.stringify(header))
+		const headerLength = Buffer.alloc(4)
+		headerLength.writeUInt32BE(headerBuffer.length, 0)
+		ws.write(Buffer.concat([tag, Buffer.from([BACKUP_FORMAT_VERSION]), headerLength, headerBuffer]))
+		body.pipe(ws, { end: false })
+	}, () => { })
+	//数据写入完成后写入文件尾
+	body.on('end', () => ws.end(Buffer.concat([
+		cipher ? cipher.getAuthTag() : Buffer.alloc(0),
+		hash.digest(),
+	])))
+	return { input: gzip as stream.Writable, done }
+}
+
+/**
+ * 创建备份文件读取流，读取到的是SQL数据，解压、解密出错时流会触发error事件
+ * @param info 备份文件信息
+ * @param password 加密密码
+ * @param onData 数据读取回调，参数为从文件读取的数据字节数，用于统计进度
+ */
+export function createBackupReader(info: IBackupFileInfo, password?: string | Buffer, onData?: (bytes: number) => void): stream.Readable {
+	const rs = fs.createReadStream(info.file, { start: info.bodyStart, end: info.bodyEnd })
+	if (onData) rs.on('data', chunk => onData(chunk.length))
+	const done = () => { }
+	//旧版文件
+	if (!info.header) return stream.pipeline(rs, zlib.createGunzip(), createCryptStream(password), done)
+	if (info.header.encryption == 'none') return stream.pipeline(rs, zlib.createGunzip(), done)
+	return stream.pipeline(rs, createBodyDecryptStream(info, password), zlib.createGunzip(), done)
+}
+
+/**
+ * 校验备份文件的完整性，会校验数据哈希，加密的文件还会校验认证标签，校验失败时抛出异常
+ * @param info 备份文件信息
+ * @param password 加密密码
+ */
+export async function verifyBackupFile(info: IBackupFileInfo, password?: string | Buffer) {
+	if (!info.header) return
+	//校验哈希
+	if (info.header.hash) {
+		const hash = crypto.createHash(info.header.hash)
+		await new Promise<void>((resolve, reject) => {
+			const rs = fs.createReadStream(info.file, { start: info.bodyStart, end: info.bodyEnd })
+			rs.on('data', chunk => hash.update(chunk))
+			rs.on('end', () => resolve())
+			rs.on('error', reject)
+		})
+		if (Buffer.compare(hash.digest(), info.trailer.slice(info.trailer.length - HASH_LENGTH)) != 0) throw new Error(`backup file ${info.file} is corrupted, hash mismatch`)
+	}
+	if (info.header.encryption == 'none') return
+	//校验认证标签
+	const decipher = createBodyDecryptStream(info, password)
+	await new Promise<void>((resolve, reject) => {
+		stream.pipeline(fs.createReadStream(info.file, { start: info.bodyStart, end: info.bodyEnd }), decipher, err => err ? reject(new Error(`backup file authentication failed, wrong password or file corrupted`)) : resolve())
+		decipher.resume()
+	})
+}
+
+/**
+ * 获取备份文件的数据哈希（hex），旧版文件没有哈希，返回null
+ * @param info 备份文件信息
+ */
+export function hashOf(info: IBackupFileInfo) {
+	if (!info.header || !info.header.hash) return null
+	return info.trailer.slice(info.trailer.length - HASH_LENGTH).toString('hex')
+}
+
+//创建数据解密流
+function createBodyDecryptStream(info: IBackupFileInfo, password?: string | Buffer) {
+	if (!password || !password.length) throw new Error(`backup file ${info.file} is encrypted, password is required`)
+	return createDecryptStream(password, Buffer.from(info.header!.salt!, 'hex'), Buffer.from(info.header!.iv!, 'hex'), info.trailer.slice(0, AUTH_TAG_LENGTH))
+}
@@ -0,0 +1,96 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import crypto from 'crypto'
+import { spawn } from 'child_process'
+import { dbu } from './mysql'
+
+/** 解析后的连接参数 */
+export interface IResolvedConnOption {
+	/** 主机名 */
+	host: string
+	/** 端口 */
+	port: number
+	/** 用户名 */
+	user?: string
+	/** 密码 */
+	password?: string
+	/** unix socket路径 */
+	socket?: string
+}
+
+/**
+ * 读取mysql选项文件（如~/.my.cnf）中给定段落的选项，后面的段落覆盖前面的段落
+ * @param file 选项文件路径，支持~开头
+ * @param groups 段落名称
+ */
+export function readOptionFile(file: string, groups: Array<string>) {
+	file = file.replace(/^~(?=$|[\\/])/, os.homedir())
+	if (!fs.existsSync(file)) throw new Error(`option file ${file} not exists`)
+	const sections: { [group: string]: { [key: string]: string } } = {}
+	let current: { [key: string]: string } | null = null
+	;(fs.readFileSync(file) + '').split(/\r?\n/).forEach(line => {
+		line = line.trim()
+		if (!line || line[0] == '#' || line[0] == ';') return
+		const group = line.match(/^\[(.+)\]$/)
+		if (group) {
+			current = sections[group[1].trim()] = sections[group[1].trim()] || {}
+			return
+		}
+		if (!current) return
+		const [, key, value = ''] = line.match(/^([^=]+?)\s*(?:=\s*(.*))?$/) || []
+		if (!key) return
+		//去掉引号并处理转义
+		const unquoted = value.match(/^(["'])([\s\S]*)\1$/)
+		current[key.replace(/_/g, '-')] = unquoted ? unquoted[2].replace(/\\(.)/g, '$1') : value.replace(/\s+#.*$/, '')
+	})
+	const result: { [key: string]: string } = {}
+	groups.forEach(g => Object.assign(result, sections[g] || {}))
+	return result
+}
+
+/**
+ * 解析连接参数，选项文件中的参数会被连接选项中直接给定的参数覆盖
+ * @param option 连接选项
+ */
+export function resolveConnOption(option: dbu.IMysqlConnOption): IResolvedConnOption {
+	const file = option.optionFile ? readOptionFile(option.optionFile, ['client', ...option.loginPath ? [option.loginPath] : []]) : {}
+	return {
+		host: option.host || file.host || 'localhost',
+		port: option.port || (file.port ? parseInt(file.port) : 3306),
+		user: option.username || file.user,
+		password: (option.password !== undefined) ? option.password : file.password,
+		socket: file.socket,
+	}
+}
+
+//生成选项文件中的值，mysql只去掉值两端成对的引号，值中的引号不需要转义（部分版本不会还原\"），只转义反斜杠及换行
+function optionValue(value: string | number) {
+	return `"${(value + '').replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`
+}
+
+/**
+ * 启动mysql客户端工具（mysql、mysqldump等），连接参数通过临时选项文件传递，不会出现在命令行中
+ * @param command 命令名称
+ * @param option 连接选项
+ * @param args 其他参数
+ */
+export function spawnClient(command: string, option: dbu.IMysqlConnOption, args: Array<string>) {
+	const conn = resolveConnOption(option)
+	const file = path.join(os.tmpdir(), `mysql-version-${crypto.randomBytes(8).toString('hex')}.cnf`)
+	fs.writeFileSync(file, [
+		'[client]',
+		`host=${optionValue(conn.host)}`,
+		`port=${conn.port}`,
+		...conn.user ? [`user=${optionValue(conn.user)}`] : [],
+		...(conn.password !== undefined) ? [`password=${optionValue(conn.password)}`] : [],
+		...conn.socket ? [`socket=${optionValue(conn.socket)}`] : [],
+		'',
+	].join('\n'), { mode: 0o600 })
+	//--defaults-extra-file必须是第一个参数
+	const cp = spawn(command, [`--defaults-extra-file=${file}`, ...args], { stdio: ['pipe', 'pipe', 'pipe'] })
+	const cleanup = () => fs.existsSync(file) && fs.unlinkSync(file)
+	cp.once('error', cleanup)
+	cp.once('close', cleanup)
+	return cp
+}
@@ -0,0 +1,258 @@
+import { dbu } from './mysql'
+import { IColumnSchema, IIndexSchema, ILinkSchema, ITableSchema, parseEnumValues } from './schema'
+import { keyName } from './utils'
+
+//mktbl().column()支持的列类型
+export const BUILDER_TYPES: Array<dbu.IColumnType> = [
+	'int', 'bigint', 'tinyint', 'smallint', 'mediumint', 'float', 'double', 'bit',
+	'varchar', 'char', 'binary', 'varbinary', 'tinytext', 'text', 'mediumtext', 'longtext',
+	'date', 'time', 'datetime', 'timestamp', 'year', 'json', 'enum', 'set', 'decimal',
+	'tinyblob', 'blob', 'mediumblob', 'longblob',
+	'geometry', 'point', 'linestring', 'polygon', 'multipoint', 'multilinestring', 'multipolygon', 'geometrycollection',
+]
+
+//mktbl().rowFormat()支持的行格式
+const ROW_FORMATS: Array<dbu.IRowFormat> = ['default', 'dynamic', 'fixed', 'compressed', 'redundant', 'compact']
+
+//mktbl().index()支持的索引类型
+const INDEX_TYPES: Array<dbu.IIndexType> = ['index', 'unique', 'fulltext']
+
+/** 可以使用column()、addColumn()表达的列结构 */
+export type IBuildableColumn = IColumnSchema & { type: dbu.IColumnType }
+
+/** 可以使用index()、addIndex()表达的索引结构 */
+export type IBuildableIndex = IIndexSchema & { type: dbu.IIndexType }
+
+/** 可以完整地使用mktbl创建的表结构 */
+export type IBuildableTable = Omit<ITableSchema, 'columns' | 'indexes' | 'rowFormat'> & {
+	columns: Array<IBuildableColumn>
+	indexes: Array<IBuildableIndex | IIndexSchema & { type: 'primary' }>
+	rowFormat: dbu.IRowFormat | null
+}
+
+//数值类型，默认值直接输出为数字
+const NUMERIC_TYPES = ['int', 'bigint', 'tinyint', 'smallint', 'mediumint', 'float', 'double', 'decimal', 'year']
+
+/**
+ * 生成单引号字符串字面量
+ * @param str 字符串
+ */
+export function quote(str: string) {
+	return `'${str.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`
+}
+
+/**
+ * 检测行格式是否可以使用rowFormat()表达
+ * @param format 行格式
+ */
+export function isRowFormat(format: string | null): format is dbu.IRowFormat {
+	return ROW_FORMATS.some(f => f == format)
+}
+
+/**
+ * 检测列是否可以使用column()、addColumn()表达
+ * @param col 列结构
+ */
+export function columnBuildable(col: IColumnSchema): col is IBuildableColumn {
+	return BUILDER_TYPES.some(t => t == col.type)
+		&& /^(unsigned)?\s*(zerofill)?$/.test(col.modifiers)
+		&& /^(on update current_timestamp(\(\d\))?)?$/i.test(col.extra)
+		//bit类型的默认值是b'1'形式的字面量
+		&& !(col.type == 'bit' && col.default !== null)
+}
+
+/**
+ * 检测索引是否可以使用index()、addIndex()表达，表达式索引及空间索引不能表达
+ * @param idx 索引结构
+ */
+export function indexBuildable(idx: IIndexSchema): idx is IBuildableIndex {
+	return INDEX_TYPES.some(t => t == idx.type) && idx.columns.every(c => c !== null)
+}
+
+/**
+ * 检测表结构是否可以完整地使用mktbl创建，无法使用的表直接使用show create table的结果创建
+ * @param table 表结构
+ */
+export function buildable(table: ITableSchema): table is IBuildableTable {
+	return !/PARTITION BY/i.test(table.createSql)
+		&& (table.rowFormat === null || isRowFormat(table.rowFormat))
+		&& table.columns.every(col => columnBuildable(col))
+		&& table.indexes.every(idx => (idx.type == 'primary') ? idx.columns.every((c, i) => c !== null && idx.subParts[i] === null && !idx.desc[i]) : indexBuildable(idx))
+}
+
+/**
+ * 生成column()及addColumn()使用的列选项，默认值是表达式时为返回表达式的函数
+ * @param col 列结构
+ * @param collation 表的默认排序规则，与列相同时不设置
+ */
+export function columnOption(col: IColumnSchema, collation?: string) {
+	const enumLike = col.type == 'enum' || col.type == 'set'
+	const dft = col.default
+	return {
+		length: (col.length && !enumLike) ? col.length : undefined,
+		values: enumLike ? parseEnumValues(col.length) : undefined,
+		unsigned: /unsigned/.test(col.modifiers) || undefined,
+		zerofill: /zerofill/.test(col.modifiers) || undefined,
+		collation: (col.collation && col.collation != collation) ? col.collation : undefined,
+		required: col.required || undefined,
+		inc: col.inc || undefined,
+		default: (dft === null) ? undefined : col.defaultExpr ? () => dft : (NUMERIC_TYPES.includes(col.type) && /^-?\d+(\.\d+)?$/.test(dft)) ? parseFloat(dft) : dft,
+		onUpdateNow: !!col.extra || undefined,
+		comment: col.comment || undefined,
+		stored: (col.generated && col.generated.stored) || undefined,
+	}
+}
+
+/**
+ * 生成列定义参数代码，用于column()、addColumn()，生成列用于generated()、addGenerated()
+ * @param col 列结构
+ * @param collation 表的默认排序规则，与列相同时不生成
+ */
+export function columnArgs(col: IColumnSchema, collation?: string) {
+	const option = columnOption(col, collation)
+	const code = (Object.keys(option) as Array<keyof typeof option>).filter(key => option[key] !== undefined).map(key => {
+		if (key == 'length') return `length: ${/^\d+$/.test(option.length!) ? option.length : quote(option.length!)}`
+		if (key == 'values') return `values: [${option.values!.map(v => quote(v)).join(', ')}]`
+		if (key == 'default') return `default: ${col.defaultExpr ? `() => ${quote(col.default!)}` : (typeof option.default == 'number') ? col.default : quote(col.default!)}`
+		const value = option[key]
+		return `${key}: ${(typeof value == 'string') ? quote(value) : value}`
+	})
+	return `${quote(col.name)}, ${quote(col.type)}${col.generated ? `, ${quote(col.generated.expr)}` : ''}${code.length ? `, { ${code.join(', ')} }` : ''}`
+}
+
+/**
+ * 生成列定义代码
+ * @param col 列结构
+ */
+export function columnCode(col: IColumnSchema, collation?: string) {
+	return `.${col.generated ? 'generated' : 'column'}(${columnArgs(col, collation)})`
+}
+
+/**
+ * 去掉show create table结果中的外键及自增值，外键在表创建完成后单独添加
+ * @param sql show create table的结果
+ */
+export function createSqlWithoutLinks(sql: string) {
+	const lines = sql.split('\n')
+	const defs = lines.slice(1, -1).map(line => line.replace(/,\s*$/, '')).filter(line => !/^\s*CONSTRAINT .* FOREIGN KEY /i.test(line))
+	return [lines[0], defs.join(',\n'), lines[lines.length - 1].replace(/ AUTO_INCREMENT=\d+/i, '')].join('\n')
+}
+
+/**
+ * 生成index()及addIndex()使用的索引列及选项，索引名称与由列名称生成的名称相同时不设置
+ * @param idx 索引结构
+ */
+export function indexOption(idx: IIndexSchema) {
+	return {
+		columns: idx.columns.map((c, i) => (idx.subParts[i] === null && !idx.desc[i]) ? c! : { name: c!, length: (idx.subParts[i] === null) ? undefined : idx.subParts[i]!, desc: idx.desc[i] || undefined }),
+		name: (idx.name != keyName(idx.columns as Array<string>)) ? idx.name : undefined,
+		ngram: idx.ngram || undefined,
+		invisible: idx.invisible || undefined,
+	}
+}
+
+/**
+ * 生成索引参数代码，用于index()、addIndex()
+ * @param idx 索引结构
+ */
+export function indexArgs(idx: IIndexSchema) {
+	const { columns, ...option } = indexOption(idx)
+	const cols = columns.map(c => {
+		if (typeof c == 'string') return quote(c)
+		return `{ ${[`name: ${quote(c.name)}`, (c.length === undefined) ? '' : `length: ${c.length}`, c.desc ? 'desc: true' : ''].filter(s => !!s).join(', ')} }`
+	})
+	const code = (Object.keys(option) as Array<keyof typeof option>).filter(key => option[key] !== undefined).map(key => `${key}: ${(key == 'name') ? quote(option.name!) : option[key]}`)
+	//有选项时需要给定索引类型
+	const type = (idx.type != 'index' || code.length) ? `, ${quote(idx.type)}` : ''
+	return `${(cols.length == 1) ? cols[0] : `[${cols.join(', ')}]`}${type}${code.length ? `, { ${code.join(', ')} }` : ''}`
+}
+
+/**
+ * 生成link()及addLink()使用的外键选项，数据库自动生成的外键名称（表名_ibfk_序号）不设置
+ * @param table 表名称
+ * @param link 外键结构
+ */
+export function linkOption(table: string, link: ILinkSchema) {
+	const auto = !link.name || new RegExp(`^${table.replace(/[^\w]/g, '\\$&')}_ibfk_\\d+$`).test(link.name)
+	const restrict = link.update == 'restrict' && link.delete == 'restrict'
+	return {
+		constraint: auto ? undefined : link.name,
+		update: restrict ? undefined : link.update as 'restrict',
+		delete: restrict ? undefined : link.delete as 'restrict',
+	}
+}
+
+/**
+ * 生成外键参数代码，用于link()、addLink()
+ * @param table 表名称
+ * @param link 外键结构
+ */
+export function linkArgs(table: string, link: ILinkSchema) {
+	const cols = (cols: Array<string>) => (cols.length == 1) ? quote(cols[0]) : `[${cols.map(c => quote(c)).join(', ')}]`
+	const option = linkOption(table, link)
+	const code = (Object.keys(option) as Array<keyof typeof option>).filter(key => option[key] !== undefined).map(key => `${key}: ${quote(option[key]!)}`)
+	return `${cols(link.columns)}, ${quote(link.table)}, ${cols(link.refColumns)}${code.length ? `, { ${code.join(', ')} }` : ''}`
+}
+
+/**
+ * 生成外键的添加代码
+ * @param table 表名称
+ * @param link 外键结构
+ */
+export function linkCode(table: string, link: ILinkSchema) {
+	return `await conn.uptbl(${quote(table)}).addLink(${linkArgs(table, link)})`
+}
+
+/**
+ * 生成表选项代码，InnoDB引擎不生成
+ * @param table 表结构
+ */
+export function tableOptionCode(table: ITableSchema) {
+	const lines: Array<string> = []
+	if (table.engine && table.engine.toLowerCase() != 'innodb') lines.push(`.engine(${quote(table.engine)})`)
+	if (table.charset) lines.push(`.charset(${quote(table.charset)}${table.collation ? `, ${quote(table.collation)}` : ''})`)
+	if (table.rowFormat) lines.push(`.rowFormat(${quote(table.rowFormat)})`)
+	return lines
+}
+
+/**
+ * 生成创建表的代码，能够使用mktbl表达的表使用mktbl创建，其他表使用原始的建表语句创建
+ * @param table 表结构
+ * @param ready 外键引用的表是否已经创建，未创建的外键需要调用者稍后添加
+ */
+export function tableCode(table: ITableSchema, ready: (link: ILinkSchema) => boolean) {
+	const lines: Array<string> = []
+	if (buildable(table)) {
+		lines.push(`await conn.mktbl(${quote(table.name)}${table.comment ? `, ${quote(table.comment)}` : ''})`)
+		tableOptionCode(table).forEach(line => lines.push(`\t${line}`))
+		table.columns.forEach(col => lines.push(`\t${columnCode(col, table.collation)}`))
+		const primary = table.indexes.find(idx => idx.type == 'primary')
+		if (primary) lines.push(`\t.primary(${primary.columns.map(c => quote(c!)).join(', ')})`)
+		table.indexes.filter(idx => idx.type != 'primary').forEach(idx => lines.push(`\t.index(${indexArgs(idx)})`))
+		table.checks.forEach(check => lines.push(`\t.check(${quote(check.name)}, ${quote(check.expr)})`))
+		table.links.filter(link => ready(link)).forEach(link => lines.push(`\t.link(${linkArgs(table.name, link)})`))
+		lines.push(`\t.done()`)
+	}
+	else {
+		lines.push(`await conn.exec(${quote(createSqlWithoutLinks(table.createSql))})`)
+		table.links.filter(link => ready(link)).forEach(link => lines.push(linkCode(table.name, link)))
+	}
+	return lines
+}
+
+/**
+ * 生成版本文件内容
+ * @param version 版本号
+ * @param lines 版本程序中的代码行
+ * @param js 是否生成javascript文件
+ */
+export function versionCode(version: number, lines: Array<string>, js?: boolean) {
+	return [
+		js ? `const { dbu } = require('mysql-version')` : `import { dbu } from 'mysql-version'`,
+		``,
+		`dbu.version(${version.toFixed(2)}, async conn => {`,
+		...lines.map(line => `\t${line}`),
+		`})`,
+		``,
+	].join('\n')
+}
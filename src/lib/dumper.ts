@@ -0,0 +1,307 @@
+import mysql from 'mysql'
+import stream from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { dbu } from './mysql'
+
+type MyConnection = ReturnType<typeof dbu.getConnection>
+
+/** 内置备份选项 */
+export interface IDumpOption {
+	/** 数据库名称 */
+	database: string
+	/** 要备份的表 */
+	tables: Array<string>
+	/** 要备份的视图 */
+	views: Array<string>
+	/** 只备份表结构 */
+	schemaOnly?: boolean
+	/** 只备份数据 */
+	dataOnly?: boolean
+	/** 按表设置数据过滤条件 */
+	where?: { [table: string]: string }
+}
+
+/** 表统计信息 */
+export interface ITableStats {
+	/** 行数 */
+	rows: number
+	/** CHECKSUM TABLE的结果，表不存在时为null */
+	checksum: string | null
+}
+
+/** 内置备份使用的驱动选项，保证数据原样导出，空间类型读取为原始数据，导出为十六进制字面量 */
+export const DUMP_DRIVER_OPTION: mysql.ConnectionConfig = {
+	dateStrings: true,
+	supportBigNumbers: true,
+	bigNumberStrings: true,
+	typeCast: (field, next) => (field.type == 'GEOMETRY') ? field.buffer() : next(),
+}
+
+//每条insert语句的最大长度
+const MAX_INSERT_LENGTH = 1024 * 1024
+
+/**
+ * 写入数据，输出流缓存已满时等待
+ * @param output 输出流
+ * @param data 数据
+ */
+function write(output: stream.Writable, data: string) {
+	if (output.write(data)) return Promise.resolve()
+	return new Promise<void>(resolve => output.once('drain', () => resolve()))
+}
+
+/**
+ * 去掉SQL语句中的数据库名称限定，使语句可以在其他数据库中执行
+ * @param sql SQL语句
+ * @param database 数据库名称
+ */
+export function unqualify(sql: string, database: string) {
+	return sql.split(`${mysql.escapeId(database)}.`).join('')
+}
+
+/**
+ * 使用数据库连接导出数据库，导出格式与mysqldump兼容，可以使用mysql命令恢复
+ * @param conn 数据库连接，需要使用DUMP_DRIVER_OPTION创建
+ * @param option 备份选项
+ * @param output 输出流，写入完成后不会关闭流
+ */
+export async function dumpDatabase(conn: MyConnection, option: IDumpOption, output: stream.Writable) {
+	const { database, where = {} } = option
+	await write(output, [
+		`-- mysql-version builtin dump of database ${mysql.escapeId(database)}`,
+		`/*!40101 SET NAMES utf8mb4 */;`,
+		`/*!40014 SET @OLD_FOREIGN_KEY_CHECKS=@@FOREIGN_KEY_CHECKS, FOREIGN_KEY_CHECKS=0 */;`,
+		'',
+	].join('\n') + '\n')
+	for (let i = 0; i < option.tables.length; i++) {
+		const table = option.tables[i]
+		//表结构
+		if (!option.dataOnly) {
+			const [res] = await conn.query(`show create table ${mysql.escapeId(database)}.${mysql.escapeId(table)}`)
+			await write(output, [
+				`--`,
+				`-- Table structure for table ${mysql.escapeId(table)}`,
+				`--`,
+				``,
+				`DROP TABLE IF EXISTS ${mysql.escapeId(table)};`,
+				`${res['Create Table']};`,
+				``,
+			].join('\n') + '\n')
+		}
+		//表数据
+		if (!option.schemaOnly) {
+			await write(output, [`--`, `-- Dumping data for table ${mysql.escapeId(table)}`, `--`, ``].join('\n') + '\n')
+			//生成列不能插入数据
+			const columns: Array<string> = await conn.query(`select COLUMN_NAME, EXTRA from information_schema.COLUMNS where TABLE_SCHEMA=? and TABLE_NAME=? order by ORDINAL_POSITION`, database, table)
+				.then(res => res.filter(col => !/GENERATED/i.test(col.EXTRA)).map(col => col.COLUMN_NAME))
+			const cols = columns.map(c => mysql.escapeId(c)).join(',')
+			const prefix = `INSERT INTO ${mysql.escapeId(table)} (${cols}) VALUES `
+			let values: Array<string> = []
+			let length = 0
+			const flush = async () => {
+				if (!values.length) return
+				await write(output, prefix + values.join(',') + ';\n')
+				values = []
+				length = 0
+			}
+			const rows = conn.stream(`select ${cols} from ${mysql.escapeId(database)}.${mysql.escapeId(table)}${where[table] ? ` where ${where[table]}` : ''}`)
+			for await (const row of rows) {
+				const value = `(${columns.map(c => mysql.escape(row[c])).join(',')})`
+				values.push(value)
+				length += value.length
+				if (length >= MAX_INSERT_LENGTH) await flush()
+			}
+			await flush()
+			await write(output, '\n')
+		}
+		//触发器
+		if (!option.dataOnly) {
+			const triggers = await conn.query(`show triggers from ${mysql.escapeId(database)} where \`Table\` = ?`, table)
+			for (let j = 0; j < triggers.length; j++) {
+				const [res] = await conn.query(`show create trigger ${mysql.escapeId(database)}.${mysql.escapeId(triggers[j].Trigger)}`)
+				await write(output, [`DELIMITER ;;`, `${res['SQL Original Statement']};;`, `DELIMITER ;`, ``].join('\n') + '\n')
+			}
+		}
+	}
+	//视图的临时结构，与mysqldump相同，先使用相同列名称的简单视图占位，视图之间引用时不依赖创建顺序
+	if (!option.dataOnly) for (let i = 0; i < option.views.length; i++) {
+		const view = option.views[i]
+		const columns = await conn.query(`select COLUMN_NAME from information_schema.COLUMNS where TABLE_SCHEMA=? and TABLE_NAME=? order by ORDINAL_POSITION`, database, view)
+		if (!columns.length) continue
+		await write(output, [
+			`--`,
+			`-- Temporary view structure for view ${mysql.escapeId(view)}`,
+			`--`,
+			``,
+			`DROP VIEW IF EXISTS ${mysql.escapeId(view)};`,
+			`CREATE VIEW ${mysql.escapeId(view)} AS SELECT ${columns.map(c => `1 AS ${mysql.escapeId(c.COLUMN_NAME)}`).join(',')};`,
+			``,
+		].join('\n') + '\n')
+	}
+	//事件、存储过程及函数，在视图之前创建，以便视图中可以使用函数
+	if (!option.dataOnly) {
+		const events = await conn.query(`show events from ${mysql.escapeId(database)}`)
+		if (events.length) await write(output, [`--`, `-- Dumping events for database ${mysql.escape(database)}`, `--`, ``].join('\n') + '\n')
+		for (let i = 0; i < events.length; i++) {
+			const name = mysql.escapeId(events[i].Name)
+			const [res] = await conn.query(`show create event ${mysql.escapeId(database)}.${name}`)
+			await write(output, [`DROP EVENT IF EXISTS ${name};`, `DELIMITER ;;`, `${res['Create Event']};;`, `DELIMITER ;`, ``].join('\n') + '\n')
+		}
+		const routines = await conn.query(`select ROUTINE_NAME, ROUTINE_TYPE from information_schema.ROUTINES where ROUTINE_SCHEMA = ? order by ROUTINE_TYPE, ROUTINE_NAME`, database)
+		if (routines.length) await write(output, [`--`, `-- Dumping routines for database ${mysql.escape(database)}`, `--`, ``].join('\n') + '\n')
+		for (let i = 0; i < routines.length; i++) {
+			const type: string = routines[i].ROUTINE_TYPE
+			const name = mysql.escapeId(routines[i].ROUTINE_NAME)
+			const [res] = await conn.query(`show create ${type} ${mysql.escapeId(database)}.${name}`)
+			//没有权限时定义为null
+			const create = res[type == 'FUNCTION' ? 'Create Function' : 'Create Procedure']
+			if (!create) throw new Error(`no privilege to read definition of ${type.toLowerCase()} ${routines[i].ROUTINE_NAME}`)
+			await write(output, [`DROP ${type} IF EXISTS ${name};`, `DELIMITER ;;`, `${create};;`, `DELIMITER ;`, ``].join('\n') + '\n')
+		}
+	}
+	//视图
+	if (!option.dataOnly) for (let i = 0; i < option.views.length; i++) {
+		const view = option.views[i]
+		const [res] = await conn.query(`show create view ${mysql.escapeId(database)}.${mysql.escapeId(view)}`)
+		await write(output, [
+			`--`,
+			`-- Final view structure for view ${mysql.escapeId(view)}`,
+			`--`,
+			``,
+			`DROP VIEW IF EXISTS ${mysql.escapeId(view)};`,
+			`${unqualify(res['Create View'], database)};`,
+			``,
+		].join('\n') + '\n')
+	}
+	await write(output, [
+		`/*!40014 SET FOREIGN_KEY_CHECKS=@OLD_FOREIGN_KEY_CHECKS */;`,
+		``,
+		`-- Dump completed`,
+	].join('\n') + '\n')
+}
+
+/**
+ * 获取表的行数及CHECKSUM TABLE校验和，用于校验备份
+ * @param conn 数据库连接，需要使用DUMP_DRIVER_OPTION创建，以免校验和丢失精度
+ * @param database 数据库名称
+ * @param tables 表名称
+ */
+export async function tableStats(conn: MyConnection, database: string, tables: Array<string>) {
+	const stats: { [table: string]: ITableStats } = {}
+	for (let i = 0; i < tables.length; i++) {
+		const table = `${mysql.escapeId(database)}.${mysql.escapeId(tables[i])}`
+		const [{ count }] = await conn.query<{ count: string | number }>(`select count(*) as count from ${table}`)
+		const [{ Checksum }] = await conn.query<{ Checksum: string | number | null }>(`checksum table ${table}`)
+		stats[tables[i]] = { rows: parseInt(count + ''), checksum: (Checksum === null) ? null : Checksum + '' }
+	}
+	return stats
+}
+
+/** SQL语句拆分器，支持字符串、注释及DELIMITER命令 */
+export class SqlSplitter {
+
+	private buffer = ''
+
+	private delimiter = ';'
+
+	/**
+	 * 写入SQL文本
+	 * @param text SQL文本
+	 * @returns 已经完整的SQL语句
+	 */
+	public push(text: string) {
+		this.buffer += text
+		return this.split(false)
+	}
+
+	/**
+	 * 结束写入
+	 * @returns 剩余的SQL语句
+	 */
+	public end() {
+		return this.split(true)
+	}
+
+	//拆分语句
+	private split(end: boolean) {
+		const result: Array<string> = []
+		const buf = this.buffer
+		let start = 0
+		let i = 0
+		//当前语句是否还没有内容
+		let blank = true
+		//当前所在的引号
+		let quote: string | null = null
+		while (i < buf.length) {
+			const ch = buf[i]
+			if (quote) {
+				if (ch == '\\' && quote != '`') i += 2
+				else {
+					if (ch == quote) quote = null
+					i++
+				}
+				continue
+			}
+			//单行注释，语句之前的注释直接丢弃
+			if (ch == '#' || (ch == '-' && buf[i + 1] == '-' && /[\s]/.test(buf[i + 2] || ''))) {
+				const eol = buf.indexOf('\n', i)
+				if (eol < 0 && !end) break
+				i = (eol < 0) ? buf.length : eol + 1
+				if (blank) start = i
+				continue
+			}
+			//语句开头的DELIMITER命令
+			if (blank && (ch == 'd' || ch == 'D') && /^delimiter\s/i.test(buf.slice(i, i + 10))) {
+				const eol = buf.indexOf('\n', i)
+				if (eol < 0 && !end) break
+				const line = buf.slice(i, eol < 0 ? buf.length : eol)
+				this.delimiter = line.trim().split(/\s+/)[1] || ';'
+				i = start = (eol < 0) ? buf.length : eol + 1
+				continue
+			}
+			if (buf.startsWith(this.delimiter, i)) {
+				const sql = buf.slice(start, i).trim()
+				if (sql) result.push(sql)
+				i = start = i + this.delimiter.length
+				blank = true
+				continue
+			}
+			if (!/\s/.test(ch)) blank = false
+			if (ch == '\'' || ch == '"' || ch == '`') {
+				quote = ch
+				i++
+			}
+			//多行注释（包括/*! */形式的可执行注释）
+			else if (ch == '/' && buf[i + 1] == '*') {
+				const close = buf.indexOf('*/', i + 2)
+				if (close < 0 && !end) break
+				i = (close < 0) ? buf.length : close + 2
+			}
+			else i++
+		}
+		//未处理完的部分留到下次，从语句开始重新扫描
+		if (end) {
+			const sql = buf.slice(start).trim()
+			if (sql) result.push(sql)
+			this.buffer = ''
+		}
+		else this.buffer = buf.slice(start)
+		return result
+	}
+}
+
+/**
+ * 使用数据库连接执行SQL文件流，用于恢复内置备份或mysqldump的备份
+ * @param conn 数据库连接，需要已经选择数据库
+ * @param input SQL输入流
+ */
+export async function loadDump(conn: MyConnection, input: stream.Readable) {
+	const splitter = new SqlSplitter()
+	const decoder = new StringDecoder('utf8')
+	for await (const chunk of input) {
+		const sqls = splitter.push(decoder.write(chunk))
+		for (let i = 0; i < sqls.length; i++) await conn.query(sqls[i])
+	}
+	const sqls = splitter.push(decoder.end()).concat(splitter.end())
+	for (let i = 0; i < sqls.length; i++) await conn.query(sqls[i])
+}
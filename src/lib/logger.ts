@@ -28,6 +28,13 @@ export namespace logger {
 		isLogShown = show
 	}
 
+	/**
+	 * 是否输出日志
+	 */
+	export function isShown() {
+		return isLogShown
+	}
+
 	/**
 	 * 清楚行并重新打印自负一层
 	 * @param str 打印的字符串
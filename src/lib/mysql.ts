@@ -1,5 +1,8 @@
 import mysql from 'mysql'
 import { logger } from './logger'
+import { resolveConnOption } from './client'
+import { parseColumnType, parseEnumValues } from './schema'
+import { keyName, MAX_NAME_LENGTH } from './utils'
 
 export namespace dbu {
 
@@ -15,17 +18,28 @@ export namespace dbu {
 		password?: string
 		/** 字符集，默认utf8mb4 */
 		charset?: string
+		/** mysql选项文件（如~/.my.cnf），读取其中[client]段的连接参数，直接给定的连接参数优先 */
+		optionFile?: string
+		/** 选项文件中额外读取的段落，类似mysql的--login-path */
+		loginPath?: string
 	}
 
 	/** 数据库列类型 */
-	type IColumnType = 'int' | 'bigint' | 'tinyint'
+	export type IColumnType = 'int' | 'bigint' | 'tinyint' | 'smallint' | 'mediumint'
+		| 'float' | 'double'
+		| 'bit'
 		| 'varchar' | 'char'
-		| 'text' | 'longtext'
-		| 'date' | 'time' | 'datetime' | 'timestamp'
+		| 'binary' | 'varbinary'
+		| 'tinytext' | 'text' | 'mediumtext' | 'longtext'
+		| 'date' | 'time' | 'datetime' | 'timestamp' | 'year'
 		| 'json'
-		| 'enum'
+		| 'enum' | 'set'
 		| 'decimal'
 		| 'tinyblob' | 'blob' | 'mediumblob' | 'longblob'
+		| 'geometry' | 'point' | 'linestring' | 'polygon' | 'multipoint' | 'multilinestring' | 'multipolygon' | 'geometrycollection'
+
+	//字符类型，可以设置字符集及排序规则
+	const STRING_TYPES = ['char', 'varchar', 'tinytext', 'text', 'mediumtext', 'longtext', 'enum', 'set']
 
 	/** 列选项 */
 	interface IColumnOption {
@@ -37,8 +51,26 @@ export namespace dbu {
 		comment?: string
 		/** 类型长度 */
 		length?: string | number
-		/** 默认值 */
+		/** enum、set类型的可选值 */
+		values?: Array<string>
+		/** 是否无符号，用于数值类型 */
+		unsigned?: boolean
+		/** 是否使用0填充到显示宽度，用于数值类型 */
+		zerofill?: boolean
+		/** 字符集，用于字符类型 */
+		charset?: string
+		/** 排序规则，用于字符类型 */
+		collation?: string
+		/** 默认值，函数的返回值作为SQL表达式使用 */
 		default?: string | number | boolean | (() => string | number | boolean)
+		/** 修改数据时是否自动更新为当前时间（on update current_timestamp），用于datetime、timestamp类型 */
+		onUpdateNow?: boolean
+	}
+
+	/** 生成列选项 */
+	export type IGeneratedOption = Pick<IColumnOption, 'length' | 'values' | 'unsigned' | 'zerofill' | 'charset' | 'collation' | 'required' | 'comment'> & {
+		/** 是否存储生成的值（stored），默认为虚拟列（virtual） */
+		stored?: boolean
 	}
 
 	/** 列信息 */
@@ -49,24 +81,117 @@ export namespace dbu {
 		type: IColumnType
 		/** 类型长度 */
 		length: string
+		/** enum、set类型的可选值 */
+		values: Array<string>
+		/** 是否无符号 */
+		unsigned: boolean
+		/** 是否使用0填充 */
+		zerofill: boolean
+		/** 字符集 */
+		charset?: string
+		/** 排序规则 */
+		collation?: string
 		/** 注释 */
 		comment: string
 		/** 是否非空 */
 		required: boolean
 		/** 是否自增 */
 		inc: boolean
-		/** 默认值 */
+		/** 默认值（SQL表达式） */
 		default?: string
+		/** 修改数据时是否自动更新为当前时间 */
+		onUpdateNow: boolean
+		/** 生成列的表达式，普通列为undefined */
+		generated?: {
+			/** 生成表达式 */
+			expr: string
+			/** 是否存储生成的值 */
+			stored: boolean
+		}
+	}
+
+	/** 检查约束信息 */
+	interface ICheckInfo {
+		/** 约束名称 */
+		name: string
+		/** 检查表达式 */
+		expr: string
+	}
+
+	/** 索引列，字符串为列名称，使用对象时可以设置前缀长度及降序 */
+	type IIndexColumn = string | {
+		/** 列名称 */
+		name: string
+		/** 前缀长度，用于字符串类型的列 */
+		length?: number
+		/** 是否降序 */
+		desc?: boolean
 	}
 
+	/** 索引类型 */
+	export type IIndexType = 'index' | 'unique' | 'fulltext'
+
 	/** 索引信息 */
 	interface IIndexInfo {
 		/** 类型 */
-		type: 'index' | 'unique' | 'fulltext',
-		/** 列名称 */
-		columns: Array<string>
+		type: IIndexType,
+		/** 列 */
+		columns: Array<IIndexColumn>
+		/** 索引名称，默认由列名称生成 */
+		name?: string
 		/** 是否使用ngram分词器，在全文索引时可以设置 */
 		ngram?: boolean
+		/** 是否不可见 */
+		invisible?: boolean
+	}
+
+	/** 索引选项 */
+	type IIndexOption = Pick<IIndexInfo, 'name' | 'ngram' | 'invisible'>
+
+	/** 行格式 */
+	export type IRowFormat = 'default' | 'dynamic' | 'fixed' | 'compressed' | 'redundant' | 'compact'
+
+	/** 分区类型 */
+	type IPartitionType = 'range' | 'list' | 'hash' | 'key' | 'linear hash' | 'linear key' | 'range columns' | 'list columns'
+
+	/** 分区信息，range分区给定lessThan，list分区给定values */
+	interface IPartitionInfo {
+		/** 分区名称 */
+		name: string
+		/** range分区的上限（values less than），'maxvalue'表示没有上限，range columns分区使用数组 */
+		lessThan?: string | number | Array<string | number>
+		/** list分区的值（values in），list columns分区的多列值使用数组 */
+		values?: Array<string | number | Array<string | number>>
+	}
+
+	/** 分区定义 */
+	interface IPartitionDef {
+		/** 分区类型 */
+		type: IPartitionType
+		/** 分区表达式，数组表示列名称（用于key、columns分区），字符串作为SQL表达式使用 */
+		expr: string | Array<string>
+		/** 分区列表，hash、key分区可以给定分区数量 */
+		partitions: number | Array<IPartitionInfo>
+	}
+
+	/** 表选项 */
+	interface ITableOption {
+		/** 存储引擎 */
+		engine?: string
+		/** 默认字符集 */
+		charset?: string
+		/** 默认排序规则 */
+		collation?: string
+		/** 行格式 */
+		rowFormat?: IRowFormat
+		/** 自增起始值 */
+		autoIncrement?: number
+		/** 分区定义 */
+		partition?: IPartitionDef
+		/** 是否只在表不存在时创建 */
+		ifNotExists?: boolean
+		/** 复制表结构的源表（create table like） */
+		like?: string
 	}
 
 	/** 外键级联选项 */
@@ -77,13 +202,228 @@ export namespace dbu {
 		delete: 'restrict' | 'cascade' | 'set null' | 'no action' | 'set default'
 	}
 
+	/** 外键选项 */
+	type ILinkOption = Partial<ILinkRefOption> & {
+		/** 外键约束名称，默认由数据库生成 */
+		constraint?: string
+	}
+
+	/** 外键信息 */
+	interface ILinkInfo extends Partial<ILinkRefOption> {
+		/** 外键约束名称 */
+		constraint?: string
+		/** 外键列名称 */
+		columns: Array<string>
+		/** 引用的表名称 */
+		table: string
+		/** 引用的列名称 */
+		refColumns: Array<string>
+	}
+
+	/** SQL安全性，即以定义者还是调用者的权限执行 */
+	type ISqlSecurity = 'definer' | 'invoker'
+
+	/** 存储程序的数据访问特性 */
+	type IDataAccess = 'contains sql' | 'no sql' | 'reads sql data' | 'modifies sql data'
+
+	/** 事件的时间间隔单位 */
+	type IIntervalUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+	/** 事件时间，使用函数时返回SQL表达式，如() => 'current_timestamp + interval 1 hour' */
+	type IEventTime = string | Date | (() => string)
+
+	/**
+	 * 获取索引列的名称
+	 * @param columns 索引列
+	 */
+	function indexColumnNames(columns: IIndexColumn | Array<IIndexColumn>) {
+		return ((columns instanceof Array) ? columns : [columns]).map(c => (typeof c == 'string') ? c : c.name)
+	}
+
+	/**
+	 * 检测索引、约束名称的长度
+	 * @param name 名称
+	 */
+	function strKeyName(name: string) {
+		if (!name || name.length > MAX_NAME_LENGTH) throw new Error(`invalid key name ${name}, the length must be between 1 and ${MAX_NAME_LENGTH}`)
+		return mysql.escapeId(name)
+	}
+
+	/**
+	 * 生成外键信息
+	 * @param name 外键列名称
+	 * @param table 引用的表名称
+	 * @param column 引用的列名称
+	 * @param option 外键选项
+	 */
+	function linkOf(name: string | Array<string>, table: string, column: string | Array<string>, option?: ILinkOption): ILinkInfo {
+		const columns = (name instanceof Array) ? name : [name]
+		const refColumns = (column instanceof Array) ? column : [column]
+		if (!columns.length || columns.length != refColumns.length) throw new Error(`foreign key columns [${columns}] do not match referenced columns [${refColumns}]`)
+		return { ...option, columns, table, refColumns }
+	}
+
+	/**
+	 * 检测字符集、排序规则、存储引擎等名称
+	 * @param name 名称
+	 */
+	function strName(name: string) {
+		if (!/^\w+$/.test(name)) throw new Error(`invalid name ${name}`)
+		return name
+	}
+
+	/**
+	 * 将默认值转换成SQL表达式，函数的返回值直接使用，其他值进行转义
+	 * @param value 默认值
+	 */
+	function sqlDefault(value: IColumnOption['default']) {
+		if (value === undefined) return
+		if (typeof value == 'function') return value() + ''
+		return mysql.escape(value)
+	}
+
+	/**
+	 * 将information_schema.COLUMNS中的默认值转换成SQL表达式
+	 * @param value COLUMN_DEFAULT
+	 * @param extra EXTRA
+	 */
+	function sqlDefaultOf(value: string | null, extra: string) {
+		if (value === null || value === undefined || value == 'NULL') return
+		//MariaDB中的默认值带有引号
+		if (/^'.*'$/s.test(value) || /^b'[01]*'$/.test(value)) return value
+		if (/^current_timestamp/i.test(value)) return value
+		if (/DEFAULT_GENERATED/i.test(extra)) return `(${value})`
+		return mysql.escape(value)
+	}
+
+	/**
+	 * 根据列选项生成列信息
+	 * @param name 列名称
+	 * @param type 列类型
+	 * @param option 列选项
+	 */
+	function columnOf(name: string, type: IColumnType, option?: IColumnOption): IColumnInfo {
+		option = option || {}
+		return {
+			name,
+			type,
+			length: (option.length === undefined) ? '' : (option.length + ''),
+			values: option.values || [],
+			unsigned: !!option.unsigned,
+			zerofill: !!option.zerofill,
+			charset: option.charset,
+			collation: option.collation,
+			comment: option.comment || '',
+			required: !!option.required,
+			inc: !!option.inc,
+			default: sqlDefault(option.default),
+			onUpdateNow: !!option.onUpdateNow,
+		}
+	}
+
+	/**
+	 * 将列信息转换成SQL字符串
+	 * @param col 列信息
+	 */
+	function strColumn(col: IColumnInfo) {
+		//enum、set类型使用可选值列表作为长度
+		const length = col.values.length ? col.values.map(v => mysql.escape(v)).join(',') : col.length
+		return [
+			mysql.escapeId(col.name),
+			`${col.type}${length ? `(${length})` : ''}`,
+			col.unsigned ? 'unsigned' : '',
+			col.zerofill ? 'zerofill' : '',
+			col.charset ? `character set ${strName(col.charset)}` : '',
+			col.collation ? `collate ${strName(col.collation)}` : '',
+			//生成列没有默认值及自增
+			col.generated ? `generated always as (${col.generated.expr}) ${col.generated.stored ? 'stored' : 'virtual'}` : '',
+			col.required ? `not null` : ``,
+			(col.inc && !col.generated) ? 'auto_increment' : '',
+			(col.default && !col.generated) ? `default ${col.default}` : '',
+			(col.onUpdateNow && !col.generated) ? `on update current_timestamp${/^\d$/.test(col.length) ? `(${col.length})` : ''}` : '',
+			col.comment ? `comment ${mysql.escape(col.comment)}` : ''
+		].filter(s => !!s).join(' ')
+	}
+
+	/**
+	 * 将检查约束信息转换成SQL字符串
+	 * @param info 检查约束信息
+	 */
+	function strCheck(info: ICheckInfo) {
+		return `constraint ${strKeyName(info.name)} check (${info.expr})`
+	}
+
+	/**
+	 * 将外键信息转换成SQL字符串
+	 * @param info 外键信息
+	 */
+	function strLink(info: ILinkInfo) {
+		const cols = (cols: Array<string>) => cols.map(c => mysql.escapeId(c)).join(',')
+		return [
+			info.constraint ? `constraint ${strKeyName(info.constraint)}` : '',
+			`foreign key (${cols(info.columns)}) references ${mysql.escapeId(info.table)}(${cols(info.refColumns)})`,
+			info.update ? `on update ${info.update}` : '',
+			info.delete ? `on delete ${info.delete}` : '',
+		].filter(s => !!s).join(' ')
+	}
+
+	/**
+	 * 将单个分区信息转换成SQL字符串
+	 * @param info 分区信息
+	 */
+	function strPartitionItem(info: IPartitionInfo) {
+		const value = (v: string | number | Array<string | number>): string => {
+			if (v instanceof Array) return `(${v.map(vi => value(vi)).join(',')})`
+			return (typeof v == 'string' && v.toLowerCase() == 'maxvalue') ? 'maxvalue' : mysql.escape(v)
+		}
+		if (info.lessThan !== undefined) return `partition ${mysql.escapeId(info.name)} values less than ${(info.lessThan instanceof Array) ? value(info.lessThan) : `(${value(info.lessThan)})`}`
+		if (info.values) return `partition ${mysql.escapeId(info.name)} values in (${info.values.map(v => value(v)).join(',')})`
+		return `partition ${mysql.escapeId(info.name)}`
+	}
+
+	/**
+	 * 将分区定义转换成SQL字符串
+	 * @param def 分区定义
+	 */
+	function strPartition(def: IPartitionDef) {
+		const expr = (def.expr instanceof Array) ? def.expr.map(c => mysql.escapeId(c)).join(',') : def.expr
+		const partitions = (typeof def.partitions == 'number') ? `partitions ${def.partitions}` : `(${def.partitions.map(p => strPartitionItem(p)).join(', ')})`
+		return `partition by ${def.type}(${expr}) ${partitions}`
+	}
+
+	/**
+	 * 将表选项转换成SQL字符串
+	 * @param option 表选项
+	 * @param comment 表注释
+	 */
+	function strTableOption(option: ITableOption, comment?: string) {
+		return [
+			option.engine ? `engine=${strName(option.engine)}` : '',
+			option.charset ? `default charset=${strName(option.charset)}` : '',
+			option.collation ? `collate=${strName(option.collation)}` : '',
+			option.rowFormat ? `row_format=${strName(option.rowFormat)}` : '',
+			(option.autoIncrement !== undefined) ? `auto_increment=${parseInt(option.autoIncrement as any)}` : '',
+			comment ? `comment=${mysql.escape(comment)}` : '',
+		].filter(s => !!s).join(' ')
+	}
+
+	/**
+	 * 检测视图、触发器、存储过程等的定义语句，语句直接发送给数据库执行，不需要DELIMITER
+	 * @param sql 定义语句
+	 * @param name 对象名称
+	 */
+	function strBody(sql: string | undefined, name: string) {
+		if (!sql || !sql.trim()) throw new Error(`body of ${name} is not defined`)
+		if (/^\s*delimiter\s/im.test(sql)) throw new Error(`body of ${name} should not contain DELIMITER`)
+		return sql.trim()
+	}
+
 	/**
-	 * 生成键名称
-	 * @param column 列信息
+	 * 将事件时间转换成SQL字符串
+	 * @param time 事件时间
 	 */
-	function keyName(column: string | Array<string>) {
-		if (typeof column == 'string') return column
-		return column.join('_')
+	function strEventTime(time: IEventTime) {
+		return (typeof time == 'function') ? time() : mysql.escape(time)
 	}
 
 	/**
@@ -92,15 +432,20 @@ export namespace dbu {
 	 */
 	function strIndex(info: IIndexInfo) {
 		//索引名称
-		const name = mysql.escapeId(keyName(info.columns))
+		const name = strKeyName(info.name || keyName(indexColumnNames(info.columns)))
 		//索引类型
 		const type = (info.type == 'index') ? 'index' : `${info.type} index`
 		//索引列
-		const cols = info.columns.map(c => mysql.escapeId(c)).join(',')
+		const cols = info.columns.map(c => {
+			if (typeof c == 'string') return mysql.escapeId(c)
+			return `${mysql.escapeId(c.name)}${c.length ? `(${parseInt(c.length as any)})` : ''}${c.desc ? ' desc' : ''}`
+		}).join(',')
 		//生成字符串
 		var str = `${type} ${name}(${cols})`
 		//ngram
 		if (info.ngram && info.type == 'fulltext') str += ' with parser ngram'
+		//不可见索引
+		if (info.invisible) str += ' invisible'
 		//完成
 		return str
 	}
@@ -112,11 +457,15 @@ export namespace dbu {
 
 		private indexes: Array<IIndexInfo> = []
 
-		private links: Array<ILinkRefOption & { name: string, table: string, column: string }> = []
+		private links: Array<ILinkInfo> = []
 
 		private primaries: Array<string> = []
 
-		constructor(private name: string, private exec: (sql: string) => any, private comment?: string) { }
+		private checks: Array<ICheckInfo> = []
+
+		private options: ITableOption = {}
+
+		constructor(private name: string, private exec: (sql: string) => any, private query: (sql: string) => any, private comment?: string) { }
 
 		/**
 		 * 添加一列
@@ -126,23 +475,40 @@ export namespace dbu {
 		 * @param length 列长度
 		 */
 		public column(name: string, type: IColumnType, option?: IColumnOption) {
-			option = option || {}
-			const required = (option.required === undefined) ? false : option.required
-			const dft = (() => {
-				if (option.default === undefined) return
-				if (typeof option.default == 'function') return option.default() + ''
-				return mysql.escape(option.default) + ''
-			})()
-			this.columns.push({ name, type, length: (option.length === undefined) ? '' : (option.length + ''), comment: option.comment || '', required, inc: !!option.inc, default: dft })
+			this.columns.push(columnOf(name, type, option))
+			return this
+		}
+
+		/**
+		 * 添加生成列
+		 * @param name 列名称
+		 * @param type 列类型
+		 * @param expr 生成表达式（SQL），如json_unquote(json_extract(`data`, '$.name'))
+		 * @param option 列选项
+		 */
+		public generated(name: string, type: IColumnType, expr: string, option?: IGeneratedOption) {
+			const { stored, ...columnOption } = option || {}
+			this.columns.push({ ...columnOf(name, type, columnOption), generated: { expr, stored: !!stored } })
+			return this
+		}
+
+		/**
+		 * 添加检查约束
+		 * @param name 约束名称
+		 * @param expr 检查表达式（SQL），如`age` >= 0
+		 */
+		public check(name: string, expr: string) {
+			this.checks.push({ name, expr })
 			return this
 		}
 
 		/**
 		 * 添加索引
-		 * @param column 列名称
+		 * @param column 索引列，可以设置前缀长度及降序
 		 * @param type 所有类型
+		 * @param option 索引选项，可以指定索引名称
 		 */
-		public index(column: string | Array<string>, type?: IIndexInfo['type'], option?: Pick<IIndexInfo, 'ngram'>) {
+		public index(column: IIndexColumn | Array<IIndexColumn>, type?: IIndexInfo['type'], option?: IIndexOption) {
 			const c = (column instanceof Array) ? column : [column]
 			this.indexes.push({ columns: c, type: type || 'index', ...option })
 			return this
@@ -150,14 +516,14 @@ export namespace dbu {
 
 		/**
 		 * 添加外键
-		 * @param name 列名称
+		 * @param name 列名称，多列外键使用数组
 		 * @param table 表名称
-		 * @param column 表中的列名称
-		 * @param option 选项
+		 * @param column 表中的列名称，与name的列一一对应
+		 * @param option 选项，可以指定外键约束名称
 		 */
-		public link(name: string, table: string, column: string, option?: Partial<ILinkRefOption>) {
+		public link(name: string | Array<string>, table: string, column: string | Array<string>, option?: ILinkOption) {
 			option = option || {}
-			this.links.push({ name, table, column, update: option.update || 'restrict', delete: option.delete || 'restrict' })
+			this.links.push(linkOf(name, table, column, { ...option, update: option.update || 'restrict', delete: option.delete || 'restrict' }))
 			return this
 		}
 
@@ -251,13 +617,14 @@ export namespace dbu {
 		 * @param field 字段名称
 		 * @param option 外键选项
 		 */
-		public idLink(name: string, table: string, field: string, option?: IColumnOption & Partial<ILinkRefOption> & { primary?: boolean }) {
-			const { update, delete: dlt, primary, ...columnOption } = option || {}
+		public idLink(name: string, table: string, field: string, option?: IColumnOption & ILinkOption & { primary?: boolean }) {
+			const { update, delete: dlt, constraint, primary, ...columnOption } = option || {}
 			this.column(name, 'bigint', columnOption)
 			if (primary) this.primaries.push(name)
 			this.link(name, table, field, {
 				update: update,
 				delete: dlt,
+				constraint,
 			})
 			return this
 		}
@@ -269,87 +636,165 @@ export namespace dbu {
 		 * @param field 字段名称
 		 * @param option 外键选项
 		 */
-		public uuidLink(name: string, table: string, field: string, option?: IColumnOption & Partial<ILinkRefOption> & { primary?: boolean }) {
-			const { update, delete: dlt, primary, ...columnOption } = option || {}
+		public uuidLink(name: string, table: string, field: string, option?: IColumnOption & ILinkOption & { primary?: boolean }) {
+			const { update, delete: dlt, constraint, primary, ...columnOption } = option || {}
 			this.column(name, 'varchar', { length: 255, ...columnOption })
 			if (primary) this.primaries.push(name)
 			this.link(name, table, field, {
 				update: update,
 				delete: dlt,
+				constraint,
 			})
 			return this
 		}
 
+		/**
+		 * 设置存储引擎
+		 * @param engine 存储引擎，如InnoDB、MyISAM
+		 */
+		public engine(engine: string) {
+			this.options.engine = engine
+			return this
+		}
+
+		/**
+		 * 设置默认字符集及排序规则
+		 * @param charset 字符集
+		 * @param collation 排序规则，默认为字符集的默认排序规则
+		 */
+		public charset(charset: string, collation?: string) {
+			this.options.charset = charset
+			this.options.collation = collation
+			return this
+		}
+
+		/**
+		 * 设置行格式
+		 * @param format 行格式
+		 */
+		public rowFormat(format: IRowFormat) {
+			this.options.rowFormat = format
+			return this
+		}
+
+		/**
+		 * 设置自增起始值
+		 * @param start 起始值
+		 */
+		public autoIncrement(start: number) {
+			this.options.autoIncrement = start
+			return this
+		}
+
+		/**
+		 * 定义分区
+		 * @param type 分区类型
+		 * @param expr 分区表达式，数组表示列名称（用于key、columns分区），字符串作为SQL表达式使用
+		 * @param partitions 分区列表，hash、key分区可以给定分区数量
+		 */
+		public partition(type: IPartitionType, expr: string | Array<string>, partitions: number | Array<IPartitionInfo>) {
+			this.options.partition = { type, expr, partitions }
+			return this
+		}
+
+		/**
+		 * 只在表不存在时创建，表已经存在时不添加外键
+		 */
+		public ifNotExists() {
+			this.options.ifNotExists = true
+			return this
+		}
+
+		/**
+		 * 复制另一个表的结构（create table like），不能再定义列、索引及外键
+		 * @param table 源表名称
+		 */
+		public like(table: string) {
+			this.options.like = table
+			return this
+		}
+
+		/**
+		 * 获取表定义
+		 */
+		public definition() {
+			return { name: this.name, comment: this.comment || '', columns: [...this.columns], indexes: [...this.indexes], links: [...this.links], primaries: [...this.primaries], checks: [...this.checks], options: { ...this.options } }
+		}
+
 		/**
 		 * 定义完成
 		 */
 		public async done() {
-			const mkcol = (col: IColumnInfo) => [
-				mysql.escapeId(col.name),
-				`${col.type}${col.length ? `(${col.length})` : ''}`,
-				(col.required || this.primaries.includes(col.name)) ? `not null` : ``,
-				col.inc ? 'auto_increment' : '',
-				col.default ? `default ${col.default}` : '',
-				col.comment ? `comment ${mysql.escape(col.comment)}` : ''
-			].filter(s => !!s).join(' ')
-
-			const sql = `create table ${mysql.escapeId(this.name)} (${[
-				...this.columns.map(col => mkcol(col)),
-				this.primaries ? `primary key (${this.primaries.map(p => mysql.escapeId(p)).join(',')})` : '',
-				...this.indexes.map(i => strIndex(i)),
-			].join(', ')})${this.comment ? ` comment=${mysql.escape(this.comment)}` : ''}`
+			const { like, ifNotExists, partition } = this.options
+			const create = `create table ${ifNotExists ? 'if not exists ' : ''}${mysql.escapeId(this.name)}`
+			const sql = (() => {
+				if (like) {
+					if (this.columns.length || this.indexes.length || this.links.length || this.primaries.length || this.checks.length) throw new Error(`table ${this.name} is created like ${like}, columns cannot be defined`)
+					return `${create} like ${mysql.escapeId(like)}`
+				}
+				const defs = [
+					//主键列总是非空
+					...this.columns.map(col => strColumn({ ...col, required: col.required || this.primaries.includes(col.name) })),
+					this.primaries.length ? `primary key (${this.primaries.map(p => mysql.escapeId(p)).join(',')})` : '',
+					...this.indexes.map(i => strIndex(i)),
+					...this.checks.map(c => strCheck(c)),
+				].filter(s => !!s).join(', ')
+				return [`${create} (${defs})`, strTableOption(this.options, this.comment), partition ? strPartition(partition) : ''].filter(s => !!s).join(' ')
+			})()
+			//在建表之前生成外键语句，以便检测外键定义
+			const links = this.links.map(link => strLink(link))
+			//表已经存在时不再创建，也不添加外键（建表的警告不一定是表已存在，不能以此判断）
+			if (ifNotExists) {
+				const [{ count }] = await this.query(`select count(*) as count from information_schema.TABLES where TABLE_SCHEMA=database() and TABLE_NAME=${mysql.escape(this.name)}`)
+				if (count > 0) {
+					logger.warn('update', `table [${this.name}] already exists`)
+					return
+				}
+			}
 			logger.info('update', `create table [${this.name}]`)
 			await this.exec(sql)
 			//等表创建完成之后，单独添加外键
-			for (let i = 0; i < this.links.length; i++) {
-				const link = this.links[i]
-				const linkstr = [
-					`foreign key (${mysql.escapeId(link.name)}) references ${mysql.escapeId(link.table)}(${mysql.escapeId(link.column)})`,
-					`on update ${link.update}`,
-					`on delete ${link.delete}`,
-				].filter(s => !!s).join(' ')
-				await this.exec(`alter table ${mysql.escapeId(this.name)} add ${linkstr}`)
+			for (let i = 0; i < links.length; i++) {
+				await this.exec(`alter table ${mysql.escapeId(this.name)} add ${links[i]}`)
 			}
 		}
 	}
 
 	/** 列修改器 */
 	class ColumnUpdater {
-		constructor(private dbname: string, private tableName: string, private colname: string, private exec: (sql: string) => any) { }
+		constructor(private dbname: string, private tableName: string, private colname: string, private exec: (sql: string) => any, private query: (sql: string) => any) { }
 
 		//获取列信息
 		private async columnInfo(name: string) {
-			const getType = (t: string) => {
-				const match = t.match(/^(\S+?)(\(([\s\S]+?)\))?$/)!
-				return {
-					type: match[1] as IColumnType,
-					length: match[3],
-				}
-			}
-			const [res] = await this.exec(`select * from information_schema.COLUMNS where TABLE_SCHEMA=${mysql.escape(this.dbname)} and TABLE_NAME=${mysql.escape(this.tableName)} and COLUMN_NAME=${mysql.escape(name)}`)
+			const [res] = await this.query(`select * from information_schema.COLUMNS where TABLE_SCHEMA=${mysql.escape(this.dbname)} and TABLE_NAME=${mysql.escape(this.tableName)} and COLUMN_NAME=${mysql.escape(name)}`)
+			if (!res) throw new Error(`column ${this.tableName}.${name} not exists`)
+			const { type, length, modifiers } = parseColumnType(res.COLUMN_TYPE)
+			const extra: string = res.EXTRA || ''
+			//enum、set类型的长度为可选值列表
+			const enumLike = type == 'enum' || type == 'set'
 			const result: IColumnInfo = {
 				name: res.COLUMN_NAME,
-				...getType(res.COLUMN_TYPE),
+				type: type as IColumnType,
+				length: enumLike ? '' : length,
+				values: enumLike ? parseEnumValues(length) : [],
+				unsigned: /\bunsigned\b/.test(modifiers),
+				zerofill: /\bzerofill\b/.test(modifiers),
+				charset: res.CHARACTER_SET_NAME || undefined,
+				collation: res.COLLATION_NAME || undefined,
 				comment: res.COLUMN_COMMENT,
 				required: res.IS_NULLABLE == 'NO',
-				inc: res.EXTRA == 'auto_increment',
-				default: res.COLUMN_DEFAULT,
+				inc: /auto_increment/i.test(extra),
+				default: sqlDefaultOf(res.COLUMN_DEFAULT, extra),
+				onUpdateNow: /on update current_timestamp/i.test(extra),
+				//保留生成列的表达式，MySQL中表达式的引号被转义
+				generated: /(VIRTUAL|STORED|PERSISTENT) GENERATED/i.test(extra) ? {
+					expr: (res.GENERATION_EXPRESSION || '').replace(/\\'/g, '\''),
+					stored: /(STORED|PERSISTENT) GENERATED/i.test(extra),
+				} : undefined,
 			}
 			return result
 		}
 
-		//生成列SQL语句
-		private mkcol(col: IColumnInfo) {
-			return [
-				mysql.escapeId(col.name),
-				`${col.type}${col.length ? `(${col.length})` : ''}`,
-				(col.required) ? `not null` : ``,
-				col.inc ? 'auto_increment' : '',
-				col.default ? `default ${mysql.escape(col.default)}` : '',
-				col.comment ? `comment ${mysql.escape(col.comment)}` : ''
-			].filter(s => !!s).join(' ')
-		}
-
 		/**
 		 * 重命名列
 		 * @param to 新名字
@@ -358,20 +803,29 @@ export namespace dbu {
 			const info = await this.columnInfo(this.colname)
 			info.name = to
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] rename to [${to}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
 		 * 修改表类型
 		 * @param type 新的类型
 		 * @param length 类型的长度，有长度的必须指定
+		 * @param option 类型选项，未给定字符集时字符类型保留原有字符集
 		 */
-		public async type(type: IColumnType, length?: string | number) {
+		public async type(type: IColumnType, length?: string | number, option?: Pick<IColumnOption, 'values' | 'unsigned' | 'zerofill' | 'charset' | 'collation'>) {
 			const info = await this.columnInfo(this.colname)
+			option = option || {}
 			info.type = type
 			info.length = length ? length + '' : ''
+			info.values = option.values || []
+			info.unsigned = !!option.unsigned
+			info.zerofill = !!option.zerofill
+			if (option.charset || option.collation || !STRING_TYPES.includes(type)) {
+				info.charset = option.charset
+				info.collation = option.collation
+			}
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] type to ${type}`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
@@ -382,7 +836,7 @@ export namespace dbu {
 			const info = await this.columnInfo(this.colname)
 			info.inc = inc
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] increment to ${inc ? 'TRUE' : 'FALSE'}`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
@@ -393,21 +847,18 @@ export namespace dbu {
 			const info = await this.columnInfo(this.colname)
 			info.required = req
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] ${req ? 'not null' : 'null'}`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
 		 * 修改默认值
-		 * @param defaultVal 默认值
+		 * @param defaultVal 默认值，函数的返回值作为SQL表达式使用，undefined表示删除默认值
 		 */
 		public async default(defaultVal: IColumnOption['default']) {
 			const info = await this.columnInfo(this.colname)
-			info.default = (() => {
-				if (typeof defaultVal == 'function') return defaultVal() + ''
-				return defaultVal + ''
-			})()
+			info.default = sqlDefault(defaultVal)
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] default value to ${info.default}`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
@@ -418,7 +869,31 @@ export namespace dbu {
 			const info = await this.columnInfo(this.colname)
 			info.comment = comment
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] comment to ${comment}`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
+		}
+
+		/**
+		 * 修改字符集及排序规则
+		 * @param charset 字符集
+		 * @param collation 排序规则，默认为字符集的默认排序规则
+		 */
+		public async charset(charset: string, collation?: string) {
+			const info = await this.columnInfo(this.colname)
+			info.charset = charset
+			info.collation = collation
+			logger.info('update', `alter column [${this.tableName}.${this.colname}] charset to ${charset}${collation ? ` collate ${collation}` : ''}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
+		}
+
+		/**
+		 * 修改是否在修改数据时自动更新为当前时间
+		 * @param enable 是否自动更新
+		 */
+		public async onUpdateNow(enable: boolean) {
+			const info = await this.columnInfo(this.colname)
+			info.onUpdateNow = enable
+			logger.info('update', `alter column [${this.tableName}.${this.colname}] on update current_timestamp ${enable ? 'TRUE' : 'FALSE'}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)}`)
 		}
 
 		/**
@@ -428,7 +903,7 @@ export namespace dbu {
 		public async after(column: string) {
 			const info = await this.columnInfo(this.colname)
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] move after [${column}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)} after ${mysql.escapeId(column)}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)} after ${mysql.escapeId(column)}`)
 		}
 
 		/**
@@ -437,30 +912,29 @@ export namespace dbu {
 		public async first() {
 			const info = await this.columnInfo(this.colname)
 			logger.info('update', `alter column [${this.tableName}.${this.colname}] move to first`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${this.mkcol(info)} first`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} change ${mysql.escapeId(this.colname)} ${strColumn(info)} first`)
 		}
 
 	}
 
 	/** 表格修改器 */
 	class TableUpdater {
-		constructor(private dbName: string, private tableName: string, private exec: (sql: string) => any) { }
-
-		//获取外键信息
-		private async foreignKeyOf(column: string) {
-			const sql = `select k.CONSTRAINT_NAME, k.TABLE_NAME, k.COLUMN_NAME ,k.REFERENCED_TABLE_NAME, k.REFERENCED_COLUMN_NAME, c.UPDATE_RULE, c.DELETE_RULE from information_schema.KEY_COLUMN_USAGE k join information_schema.REFERENTIAL_CONSTRAINTS c on c.CONSTRAINT_NAME=k.CONSTRAINT_NAME where k.TABLE_SCHEMA=${mysql.escape(this.dbName)} and k.TABLE_NAME=${mysql.escape(this.tableName)} and k.COLUMN_NAME=${mysql.escape(column)}`
-			const [key] = await this.exec(sql)
-			// const [key] = keys.filter(key => key.REFERENCED_TABLE_SCHEMA && key.REFERENCED_TABLE_NAME && key.REFERENCED_COLUMN_NAME)
-			if (!key) return null
-			return {
-				name: key.CONSTRAINT_NAME,
-				fromTable: key.TABLE_NAME,
-				fromColumn: key.COLUMN_NAME,
-				toTable: key.REFERENCED_TABLE_NAME,
-				toColumn: key.REFERENCED_COLUMN_NAME,
-				onUpdate: key.UPDATE_RULE,
-				onDelete: key.DELETE_RULE,
-			}
+		constructor(private dbName: string, private tableName: string, private exec: (sql: string) => any, private query: (sql: string) => any) { }
+
+		//获取外键列表
+		private async foreignKeys() {
+			const sql = `select CONSTRAINT_NAME, COLUMN_NAME, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME from information_schema.KEY_COLUMN_USAGE where TABLE_SCHEMA=${mysql.escape(this.dbName)} and TABLE_NAME=${mysql.escape(this.tableName)} and REFERENCED_TABLE_NAME is not null order by CONSTRAINT_NAME, ORDINAL_POSITION`
+			const keys: Array<any> = await this.query(sql)
+			const buffer: Array<{ name: string, columns: Array<string>, table: string, refColumns: Array<string> }> = []
+			keys.forEach(key => {
+				const exists = buffer.find(b => b.name == key.CONSTRAINT_NAME)
+				if (exists) {
+					exists.columns.push(key.COLUMN_NAME)
+					exists.refColumns.push(key.REFERENCED_COLUMN_NAME)
+				}
+				else buffer.push({ name: key.CONSTRAINT_NAME, columns: [key.COLUMN_NAME], table: key.REFERENCED_TABLE_NAME, refColumns: [key.REFERENCED_COLUMN_NAME] })
+			})
+			return buffer
 		}
 
 		//获取主键列表
@@ -474,8 +948,8 @@ export namespace dbu {
 
 		//获取索引列表
 		private async keys() {
-			const sql = `select * from information_schema.STATISTICS where TABLE_SCHEMA=${mysql.escape(this.dbName)} and TABLE_NAME=${mysql.escape(this.tableName)}`
-			const keys: Array<any> = await this.exec(sql)
+			const sql = `select * from information_schema.STATISTICS where TABLE_SCHEMA=${mysql.escape(this.dbName)} and TABLE_NAME=${mysql.escape(this.tableName)} order by INDEX_NAME, SEQ_IN_INDEX`
+			const keys: Array<any> = await this.query(sql)
 			const buffer: Array<{ name: string, columns: Array<string> }> = []
 			keys.forEach(key => {
 				for (let i = 0; i < buffer.length; i++) {
@@ -510,6 +984,100 @@ export namespace dbu {
 			await this.exec(`rename table ${mysql.escapeId(this.tableName)} to ${mysql.escapeId(to)}`)
 		}
 
+		/**
+		 * 修改存储引擎
+		 * @param engine 存储引擎
+		 */
+		public async engine(engine: string) {
+			logger.info('update', `alter table [${this.tableName}] engine to ${engine}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} engine=${strName(engine)}`)
+		}
+
+		/**
+		 * 修改默认字符集及排序规则，已有的列不会被转换
+		 * @param charset 字符集
+		 * @param collation 排序规则，默认为字符集的默认排序规则
+		 */
+		public async charset(charset: string, collation?: string) {
+			logger.info('update', `alter table [${this.tableName}] charset to ${charset}${collation ? ` collate ${collation}` : ''}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} ${strTableOption({ charset, collation })}`)
+		}
+
+		/**
+		 * 转换表及所有字符列的字符集及排序规则
+		 * @param charset 字符集
+		 * @param collation 排序规则，默认为字符集的默认排序规则
+		 */
+		public async convertCharset(charset: string, collation?: string) {
+			logger.info('update', `alter table [${this.tableName}] convert to charset ${charset}${collation ? ` collate ${collation}` : ''}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} convert to character set ${strName(charset)}${collation ? ` collate ${strName(collation)}` : ''}`)
+		}
+
+		/**
+		 * 修改行格式
+		 * @param format 行格式
+		 */
+		public async rowFormat(format: IRowFormat) {
+			logger.info('update', `alter table [${this.tableName}] row format to ${format}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} ${strTableOption({ rowFormat: format })}`)
+		}
+
+		/**
+		 * 修改自增值
+		 * @param value 下一个自增值
+		 */
+		public async autoIncrement(value: number) {
+			logger.info('update', `alter table [${this.tableName}] auto increment to ${value}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} ${strTableOption({ autoIncrement: value })}`)
+		}
+
+		/**
+		 * 对表进行分区（已分区的表重新分区）
+		 * @param type 分区类型
+		 * @param expr 分区表达式，数组表示列名称（用于key、columns分区），字符串作为SQL表达式使用
+		 * @param partitions 分区列表，hash、key分区可以给定分区数量
+		 */
+		public async partition(type: IPartitionType, expr: string | Array<string>, partitions: number | Array<IPartitionInfo>) {
+			logger.info('update', `alter table [${this.tableName}] partition by ${type}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} ${strPartition({ type, expr, partitions })}`)
+		}
+
+		/**
+		 * 添加分区，range、list分区给定分区列表，hash、key分区给定增加的分区数量
+		 * @param partitions 分区列表或数量
+		 */
+		public async addPartitions(partitions: number | Array<IPartitionInfo>) {
+			logger.info('update', `alter table [${this.tableName}] add partitions`)
+			const str = (typeof partitions == 'number') ? `partitions ${partitions}` : `(${partitions.map(p => strPartitionItem(p)).join(', ')})`
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add partition ${str}`)
+		}
+
+		/**
+		 * 删除range、list分区，分区中的数据也会被删除
+		 * @param names 分区名称
+		 */
+		public async dropPartitions(...names: Array<string>) {
+			logger.info('update', `alter table [${this.tableName}] drop partitions ${names.join(',')}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop partition ${names.map(n => mysql.escapeId(n)).join(',')}`)
+		}
+
+		/**
+		 * 合并hash、key分区
+		 * @param count 减少的分区数量
+		 */
+		public async coalescePartitions(count: number) {
+			logger.info('update', `alter table [${this.tableName}] coalesce ${count} partitions`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} coalesce partition ${parseInt(count as any)}`)
+		}
+
+		/**
+		 * 取消分区，数据保留
+		 */
+		public async removePartitioning() {
+			logger.info('update', `alter table [${this.tableName}] remove partitioning`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} remove partitioning`)
+		}
+
 		/**
 		 * 设置主键
 		 * @param names 主键名称
@@ -530,22 +1098,40 @@ export namespace dbu {
 		 * @param option 列选项
 		 */
 		public async addColumn(name: string, type: IColumnType, option?: IColumnOption) {
-			const { length = '', required = false, inc = false, comment = undefined, default: dftv = undefined } = option || {}
-			const dft = (() => {
-				if (dftv === undefined) return
-				if (typeof dftv === 'function') return dftv() + ''
-				return mysql.escape(dftv)
-			})()
-			const mkcol = () => [
-				mysql.escapeId(name),
-				`${type}${length ? `(${length})` : ''}`,
-				required ? `not null` : ``,
-				inc ? 'auto_increment' : '',
-				dft ? `default ${dft}` : '',
-				comment ? `comment ${mysql.escape(comment)}` : ''
-			].filter(s => !!s).join(' ')
 			logger.info('update', `alter table [${this.tableName}] add column [${name}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add column ${mkcol()}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add column ${strColumn(columnOf(name, type, option))}`)
+		}
+
+		/**
+		 * 添加生成列
+		 * @param name 列名称
+		 * @param type 列类型
+		 * @param expr 生成表达式（SQL）
+		 * @param option 列选项
+		 */
+		public async addGenerated(name: string, type: IColumnType, expr: string, option?: IGeneratedOption) {
+			const { stored, ...columnOption } = option || {}
+			logger.info('update', `alter table [${this.tableName}] add generated column [${name}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add column ${strColumn({ ...columnOf(name, type, columnOption), generated: { expr, stored: !!stored } })}`)
+		}
+
+		/**
+		 * 添加检查约束
+		 * @param name 约束名称
+		 * @param expr 检查表达式（SQL）
+		 */
+		public async addCheck(name: string, expr: string) {
+			logger.info('update', `alter table [${this.tableName}] add check [${name}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add ${strCheck({ name, expr })}`)
+		}
+
+		/**
+		 * 删除检查约束
+		 * @param name 约束名称
+		 */
+		public async dropCheck(name: string) {
+			logger.info('update', `alter table [${this.tableName}] drop check [${name}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop check ${mysql.escapeId(name)}`)
 		}
 
 		/**
@@ -554,7 +1140,11 @@ export namespace dbu {
 		 */
 		public async dropColumn(name: string) {
 			logger.info('update', `alter table [${this.tableName}] drop column [${name}]`)
-			await this.dropLink(name)
+			//删除包含此列的外键
+			const keys = await this.foreignKeys()
+			for (let i = 0; i < keys.length; i++) {
+				if (keys[i].columns.includes(name)) await this.dropForeignKey(keys[i].name)
+			}
 			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop column ${mysql.escapeId(name)}`)
 		}
 
@@ -563,72 +1153,98 @@ export namespace dbu {
 		 * @param name 列名称
 		 */
 		public column(name: string) {
-			return new ColumnUpdater(this.dbName, this.tableName, name, this.exec)
+			return new ColumnUpdater(this.dbName, this.tableName, name, this.exec, this.query)
 		}
 
 		/**
 		 * 删除索引
-		 * @param columns 索引列名称
+		 * @param columns 索引列，或者索引名称
 		 */
-		public async dropKey(columns: Array<string> | string) {
-			logger.info('update', `alter table [${this.tableName}] drop index of [${columns}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop index ${keyName(columns)}`)
+		public async dropKey(columns: IIndexColumn | Array<IIndexColumn>) {
+			const kname = keyName(indexColumnNames(columns))
+			logger.info('update', `alter table [${this.tableName}] drop index [${kname}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop index ${strKeyName(kname)}`)
 		}
 
 		/**
 		 * 添加索引
-		 * @param columns 列名称
+		 * @param columns 索引列，可以设置前缀长度及降序
 		 * @param type 索引类型
-		 * @param option 索引选项
+		 * @param option 索引选项，可以指定索引名称
 		 */
-		public async addIndex(columns: Array<string> | string, type: IIndexInfo['type'] = 'index', option?: Pick<IIndexInfo, 'ngram'>) {
+		public async addIndex(columns: IIndexColumn | Array<IIndexColumn>, type: IIndexInfo['type'] = 'index', option?: IIndexOption) {
 			columns = (columns instanceof Array) ? columns : [columns]
 			//检测索引是否存在，如果存在则删除
-			const kname = keyName(columns)
+			const kname = (option && option.name) || keyName(indexColumnNames(columns))
 			const keys = await this.keys()
-			if (keys.some(key => key.name == kname)) await this.dropKey(columns)
+			if (keys.some(key => key.name == kname)) await this.dropKey(kname)
 			//添加索引
-			logger.info('update', `alter table [${this.tableName}] add index of [${columns}]`)
-			const indexStr = strIndex({ columns, type, ...option })
+			logger.info('update', `alter table [${this.tableName}] add index [${kname}] of [${indexColumnNames(columns)}]`)
+			const indexStr = strIndex({ columns, type, ...option, name: kname })
 			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add ${indexStr}`)
 		}
 
+		/**
+		 * 重命名索引
+		 * @param from 原索引名称
+		 * @param to 新索引名称
+		 */
+		public async renameIndex(from: string, to: string) {
+			logger.info('update', `alter table [${this.tableName}] rename index [${from}] to [${to}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} rename index ${mysql.escapeId(from)} to ${strKeyName(to)}`)
+		}
+
+		/**
+		 * 设置索引是否可见
+		 * @param name 索引名称
+		 * @param visible 是否可见
+		 */
+		public async indexVisible(name: string, visible: boolean) {
+			logger.info('update', `alter table [${this.tableName}] alter index [${name}] ${visible ? 'visible' : 'invisible'}`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} alter index ${mysql.escapeId(name)} ${visible ? 'visible' : 'invisible'}`)
+		}
+
 		/**
 		 * 删除给定列的外键
-		 * @param column 列名称
+		 * @param column 列名称，多列外键使用数组
 		 */
-		public async dropLink(column: string) {
-			const key = await this.foreignKeyOf(column)
+		public async dropLink(column: string | Array<string>) {
+			const columns = (column instanceof Array) ? column : [column]
+			const key = (await this.foreignKeys()).find(key => key.columns.join(',') == columns.join(','))
 			if (!key) return
-			logger.info('update', `alter table [${this.tableName}] drop foreign key of [${column}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop foreign key ${mysql.escapeId(key.name)}`)
+			await this.dropForeignKey(key.name)
+		}
+
+		/**
+		 * 删除给定名称的外键约束
+		 * @param constraint 外键约束名称
+		 */
+		public async dropForeignKey(constraint: string) {
+			logger.info('update', `alter table [${this.tableName}] drop foreign key [${constraint}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} drop foreign key ${mysql.escapeId(constraint)}`)
 		}
 
 		/**
 		 * 添加外键
-		 * @param name 要设置外键的字段名称
+		 * @param name 要设置外键的字段名称，多列外键使用数组
 		 * @param table 目标表名称
-		 * @param column 目标表列名称
-		 * @param option 外键选项
+		 * @param column 目标表列名称，与name的列一一对应
+		 * @param option 外键选项，可以指定外键约束名称
 		 */
-		public async addLink(name: string, table: string, column: string, option?: Partial<ILinkRefOption>) {
-			option = option || {}
-			const ref = [
-				option.update ? `on update ${option.update}` : '',
-				option.delete ? `on delete ${option.delete}` : '',
-			].filter(s => !!s).join(' ')
-			logger.info('update', `alter table [${this.tableName}] add foreign key of [${column}]`)
-			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add foreign key (${mysql.escapeId(name)}) references ${mysql.escapeId(table)}(${mysql.escapeId(column)}) ${ref}`)
+		public async addLink(name: string | Array<string>, table: string, column: string | Array<string>, option?: ILinkOption) {
+			const info = linkOf(name, table, column, option)
+			logger.info('update', `alter table [${this.tableName}] add foreign key of [${info.columns}]`)
+			await this.exec(`alter table ${mysql.escapeId(this.tableName)} add ${strLink(info)}`)
 		}
 
 		/**
 		 * 设置外键（如果存在则先删除）
-		 * @param name 要设置外键的字段名称
+		 * @param name 要设置外键的字段名称，多列外键使用数组
 		 * @param table 目标表名称
 		 * @param column 目标表列名称
 		 * @param option 外键选项
 		 */
-		public async link(name: string, table: string, column: string, option?: Partial<ILinkRefOption>) {
+		public async link(name: string | Array<string>, table: string, column: string | Array<string>, option?: ILinkOption) {
 			//删除外键
 			await this.dropLink(name)
 			//添加外键
@@ -636,6 +1252,327 @@ export namespace dbu {
 		}
 	}
 
+	/** 视图创建器，视图已经存在时替换 */
+	class ViewMaker {
+
+		private columnNames: Array<string> = []
+
+		private select?: string
+
+		private options: { algorithm?: 'undefined' | 'merge' | 'temptable', security?: ISqlSecurity, check?: 'cascaded' | 'local' } = {}
+
+		constructor(private name: string, private exec: (sql: string) => any) { }
+
+		/**
+		 * 定义视图的列名称，默认使用查询结果的列名称
+		 * @param names 列名称
+		 */
+		public columns(...names: Array<string>) {
+			this.columnNames = names
+			return this
+		}
+
+		/**
+		 * 定义视图的查询语句
+		 * @param select 查询语句
+		 */
+		public as(select: string) {
+			this.select = select
+			return this
+		}
+
+		/**
+		 * 设置视图算法
+		 * @param algorithm 视图算法
+		 */
+		public algorithm(algorithm: 'undefined' | 'merge' | 'temptable') {
+			this.options.algorithm = algorithm
+			return this
+		}
+
+		/**
+		 * 设置SQL安全性
+		 * @param security 以定义者还是调用者的权限执行
+		 */
+		public security(security: ISqlSecurity) {
+			this.options.security = security
+			return this
+		}
+
+		/**
+		 * 通过视图修改数据时检查数据是否满足视图的条件
+		 * @param check 检查范围，默认cascaded
+		 */
+		public checkOption(check: 'cascaded' | 'local' = 'cascaded') {
+			this.options.check = check
+			return this
+		}
+
+		/**
+		 * 定义完成
+		 */
+		public async done() {
+			const { algorithm, security, check } = this.options
+			const sql = [
+				'create or replace',
+				algorithm ? `algorithm = ${algorithm}` : '',
+				security ? `sql security ${security}` : '',
+				`view ${mysql.escapeId(this.name)}`,
+				this.columnNames.length ? `(${this.columnNames.map(c => mysql.escapeId(c)).join(',')})` : '',
+				`as ${strBody(this.select, `view ${this.name}`)}`,
+				check ? `with ${check} check option` : '',
+			].filter(s => !!s).join(' ')
+			logger.info('update', `create view [${this.name}]`)
+			await this.exec(sql)
+		}
+	}
+
+	/** 触发器创建器，触发器已经存在时先删除 */
+	class TriggerMaker {
+
+		private event?: { timing: 'before' | 'after', action: 'insert' | 'update' | 'delete', table: string }
+
+		private sql?: string
+
+		constructor(private name: string, private exec: (sql: string) => any) { }
+
+		/**
+		 * 定义触发时机
+		 * @param timing 在数据修改之前还是之后触发
+		 * @param action 触发的修改操作
+		 * @param table 表名称
+		 */
+		public on(timing: 'before' | 'after', action: 'insert' | 'update' | 'delete', table: string) {
+			this.event = { timing, action, table }
+			return this
+		}
+
+		/**
+		 * 定义触发器执行的语句，多条语句使用begin ... end
+		 * @param sql 触发器语句，如set new.upTime = now()
+		 */
+		public body(sql: string) {
+			this.sql = sql
+			return this
+		}
+
+		/**
+		 * 定义完成
+		 */
+		public async done() {
+			if (!this.event) throw new Error(`event of trigger ${this.name} is not defined`)
+			const { timing, action, table } = this.event
+			const body = strBody(this.sql, `trigger ${this.name}`)
+			logger.info('update', `create trigger [${this.name}] ${timing} ${action} on [${table}]`)
+			await this.exec(`drop trigger if exists ${mysql.escapeId(this.name)}`)
+			await this.exec(`create trigger ${mysql.escapeId(this.name)} ${timing} ${action} on ${mysql.escapeId(table)} for each row ${body}`)
+		}
+	}
+
+	/** 存储过程及函数创建器，已经存在时先删除 */
+	abstract class RoutineMaker {
+
+		protected params: Array<string> = []
+
+		private sql?: string
+
+		private options: { deterministic?: boolean, dataAccess?: IDataAccess, security?: ISqlSecurity } = {}
+
+		constructor(protected kind: 'procedure' | 'function', protected name: string, private exec: (sql: string) => any, private comment?: string) { }
+
+		/**
+		 * 设置是否是确定性的，即相同的参数总是得到相同的结果
+		 * @param deterministic 是否是确定性的
+		 */
+		public deterministic(deterministic = true) {
+			this.options.deterministic = deterministic
+			return this
+		}
+
+		/**
+		 * 设置数据访问特性
+		 * @param access 数据访问特性
+		 */
+		public dataAccess(access: IDataAccess) {
+			this.options.dataAccess = access
+			return this
+		}
+
+		/**
+		 * 设置SQL安全性
+		 * @param security 以定义者还是调用者的权限执行
+		 */
+		public security(security: ISqlSecurity) {
+			this.options.security = security
+			return this
+		}
+
+		/**
+		 * 定义执行的语句，多条语句使用begin ... end
+		 * @param sql 语句
+		 */
+		public body(sql: string) {
+			this.sql = sql
+			return this
+		}
+
+		//返回值定义
+		protected strReturns() {
+			return ''
+		}
+
+		/**
+		 * 定义完成
+		 */
+		public async done() {
+			const { deterministic, dataAccess, security } = this.options
+			const sql = [
+				`create ${this.kind} ${mysql.escapeId(this.name)}(${this.params.join(', ')})`,
+				this.strReturns(),
+				this.comment ? `comment ${mysql.escape(this.comment)}` : '',
+				(deterministic === undefined) ? '' : deterministic ? 'deterministic' : 'not deterministic',
+				dataAccess || '',
+				security ? `sql security ${security}` : '',
+				strBody(this.sql, `${this.kind} ${this.name}`),
+			].filter(s => !!s).join(' ')
+			logger.info('update', `create ${this.kind} [${this.name}]`)
+			await this.exec(`drop ${this.kind} if exists ${mysql.escapeId(this.name)}`)
+			await this.exec(sql)
+		}
+	}
+
+	/** 存储过程创建器 */
+	class ProcedureMaker extends RoutineMaker {
+
+		constructor(name: string, exec: (sql: string) => any, comment?: string) {
+			super('procedure', name, exec, comment)
+		}
+
+		/**
+		 * 添加参数
+		 * @param name 参数名称
+		 * @param type 参数类型（SQL），如int、varchar(20)
+		 * @param mode 参数模式，默认in
+		 */
+		public param(name: string, type: string, mode: 'in' | 'out' | 'inout' = 'in') {
+			this.params.push(`${mode} ${mysql.escapeId(name)} ${type}`)
+			return this
+		}
+	}
+
+	/** 存储函数创建器 */
+	class FunctionMaker extends RoutineMaker {
+
+		private returnType?: string
+
+		constructor(name: string, exec: (sql: string) => any, comment?: string) {
+			super('function', name, exec, comment)
+		}
+
+		/**
+		 * 添加参数
+		 * @param name 参数名称
+		 * @param type 参数类型（SQL），如int、varchar(20)
+		 */
+		public param(name: string, type: string) {
+			this.params.push(`${mysql.escapeId(name)} ${type}`)
+			return this
+		}
+
+		/**
+		 * 定义返回值类型
+		 * @param type 返回值类型（SQL），如int、varchar(20)
+		 */
+		public returns(type: string) {
+			this.returnType = type
+			return this
+		}
+
+		protected strReturns() {
+			if (!this.returnType) throw new Error(`return type of function ${this.name} is not defined`)
+			return `returns ${this.returnType}`
+		}
+	}
+
+	/** 事件创建器，事件已经存在时先删除 */
+	class EventMaker {
+
+		private schedule?: string
+
+		private sql?: string
+
+		private options: { preserve?: boolean, disable?: boolean } = {}
+
+		constructor(private name: string, private exec: (sql: string) => any, private comment?: string) { }
+
+		/**
+		 * 在给定的时间执行一次
+		 * @param time 执行时间
+		 */
+		public at(time: IEventTime) {
+			this.schedule = `at ${strEventTime(time)}`
+			return this
+		}
+
+		/**
+		 * 按照给定的间隔重复执行
+		 * @param interval 间隔数量
+		 * @param unit 间隔单位
+		 * @param option 开始及结束时间
+		 */
+		public every(interval: number, unit: IIntervalUnit, option?: { starts?: IEventTime, ends?: IEventTime }) {
+			const { starts, ends } = option || {}
+			this.schedule = [
+				`every ${parseInt(interval as any)} ${unit}`,
+				starts ? `starts ${strEventTime(starts)}` : '',
+				ends ? `ends ${strEventTime(ends)}` : '',
+			].filter(s => !!s).join(' ')
+			return this
+		}
+
+		/**
+		 * 事件过期后保留事件，默认过期后删除
+		 */
+		public preserve() {
+			this.options.preserve = true
+			return this
+		}
+
+		/**
+		 * 创建后不启用事件
+		 */
+		public disable() {
+			this.options.disable = true
+			return this
+		}
+
+		/**
+		 * 定义事件执行的语句，多条语句使用begin ... end
+		 * @param sql 语句
+		 */
+		public body(sql: string) {
+			this.sql = sql
+			return this
+		}
+
+		/**
+		 * 定义完成
+		 */
+		public async done() {
+			if (!this.schedule) throw new Error(`schedule of event ${this.name} is not defined`)
+			const sql = [
+				`create event ${mysql.escapeId(this.name)} on schedule ${this.schedule}`,
+				this.options.preserve ? 'on completion preserve' : '',
+				this.options.disable ? 'disable' : '',
+				this.comment ? `comment ${mysql.escape(this.comment)}` : '',
+				`do ${strBody(this.sql, `event ${this.name}`)}`,
+			].filter(s => !!s).join(' ')
+			logger.info('update', `create event [${this.name}]`)
+			await this.exec(`drop event if exists ${mysql.escapeId(this.name)}`)
+			await this.exec(sql)
+		}
+	}
+
 	/** MySQL连接 */
 	class MyConnection {
 
@@ -643,12 +1580,18 @@ export namespace dbu {
 
 		private dbname?: string
 
-		constructor(option: IMysqlConnOption) {
+		//SQL记录，记录模式下修改语句只记录不执行
+		private records?: Array<string>
+
+		constructor(option: IMysqlConnOption, driverOption?: mysql.ConnectionConfig) {
+			const conf = resolveConnOption(option)
 			this.conn = mysql.createConnection({
-				host: option.host || 'localhost',
-				port: option.port || 3306,
-				user: option.username,
-				password: option.password,
+				...driverOption,
+				host: conf.host,
+				port: conf.port,
+				user: conf.user,
+				password: conf.password,
+				socketPath: conf.socket,
 				charset: option.charset || 'utf8mb4'
 			})
 		}
@@ -686,21 +1629,78 @@ export namespace dbu {
 		}
 
 		/**
-		 * 执行SQL修改语句
+		 * 以流的方式执行查询，适用于数据量较大的查询，流中的每个数据为一行
+		 * @param sql SQL语句
+		 * @param args 参数
+		 */
+		public stream(sql: string, ...args: Array<any>) {
+			return this.conn.query(sql, args).stream({ highWaterMark: 100 })
+		}
+
+		/**
+		 * 执行SQL修改语句，记录模式下只记录语句
 		 * @param sql SQL语句
 		 * @param args 参数
 		 */
 		public async exec(sql: string, ...args: Array<any>): Promise<any> {
+			if (this.records) {
+				this.records.push(mysql.format(sql, args))
+				return { affectedRows: 0, changedRows: 0, insertId: 0 }
+			}
 			return new Promise((resolve, reject) => this.conn.query(sql, args, (err, res) => err ? reject(err) : resolve(res)))
 		}
 
+		/**
+		 * 获取命名锁（GET_LOCK），锁在连接关闭时也会自动释放
+		 * @param name 锁名称
+		 * @param timeout 等待超时时间（秒）
+		 * @returns 是否获取成功
+		 */
+		public async lock(name: string, timeout: number) {
+			const [res] = await this.query<{ locked: number | null }>('select get_lock(?, ?) as locked', name, timeout)
+			return res.locked == 1
+		}
+
+		/**
+		 * 释放命名锁
+		 * @param name 锁名称
+		 */
+		public async unlock(name: string) {
+			await this.query('select release_lock(?)', name)
+		}
+
+		/**
+		 * 获取持有命名锁的连接所在的主机，锁未被持有时返回null
+		 * @param name 锁名称
+		 */
+		public async lockHolder(name: string) {
+			const [res] = await this.query<{ host: string }>('select HOST as host from information_schema.PROCESSLIST where ID = is_used_lock(?)', name)
+			return res ? res.host : null
+		}
+
+		/**
+		 * 开始记录SQL修改语句，之后的exec调用及表格创建、修改只记录不执行，查询语句依然正常执行
+		 */
+		public record() {
+			this.records = []
+		}
+
+		/**
+		 * 结束记录，并返回记录到的SQL语句
+		 */
+		public stopRecord() {
+			const records = this.records || []
+			this.records = undefined
+			return records
+		}
+
 		/**
 		 * 创建表
 		 * @param name 表名称
 		 * @param comment 表注释
 		 */
 		public mktbl(name: string, comment?: string) {
-			return new TableMaker(name, this.exec.bind(this), comment)
+			return new TableMaker(name, this.exec.bind(this), this.query.bind(this), comment)
 		}
 
 		/**
@@ -709,7 +1709,95 @@ export namespace dbu {
 		 */
 		public uptbl(name: string) {
 			if (!this.dbname) throw new Error('unknown database name when update table')
-			return new TableUpdater(this.dbname, name, this.exec.bind(this))
+			return new TableUpdater(this.dbname, name, this.exec.bind(this), this.query.bind(this))
+		}
+
+		/**
+		 * 创建或替换视图
+		 * @param name 视图名称
+		 */
+		public mkview(name: string) {
+			return new ViewMaker(name, this.exec.bind(this))
+		}
+
+		/**
+		 * 创建触发器，已经存在时替换
+		 * @param name 触发器名称
+		 */
+		public mktrigger(name: string) {
+			return new TriggerMaker(name, this.exec.bind(this))
+		}
+
+		/**
+		 * 创建存储过程，已经存在时替换
+		 * @param name 存储过程名称
+		 * @param comment 注释
+		 */
+		public mkproc(name: string, comment?: string) {
+			return new ProcedureMaker(name, this.exec.bind(this), comment)
+		}
+
+		/**
+		 * 创建存储函数，已经存在时替换
+		 * @param name 函数名称
+		 * @param comment 注释
+		 */
+		public mkfunc(name: string, comment?: string) {
+			return new FunctionMaker(name, this.exec.bind(this), comment)
+		}
+
+		/**
+		 * 创建事件，已经存在时替换
+		 * @param name 事件名称
+		 * @param comment 注释
+		 */
+		public mkevent(name: string, comment?: string) {
+			return new EventMaker(name, this.exec.bind(this), comment)
+		}
+
+		/**
+		 * 删除视图
+		 * @param name 视图名称
+		 */
+		public async dropView(name: string) {
+			logger.info('update', `drop view [${name}]`)
+			await this.exec('drop view if exists ??', name)
+		}
+
+		/**
+		 * 删除触发器
+		 * @param name 触发器名称
+		 */
+		public async dropTrigger(name: string) {
+			logger.info('update', `drop trigger [${name}]`)
+			await this.exec('drop trigger if exists ??', name)
+		}
+
+		/**
+		 * 删除存储过程
+		 * @param name 存储过程名称
+		 */
+		public async dropProc(name: string) {
+			logger.info('update', `drop procedure [${name}]`)
+			await this.exec('drop procedure if exists ??', name)
+		}
+
+		/**
+		 * 删除存储函数
+		 * @param name 函数名称
+		 */
+		public async dropFunc(name: string) {
+			logger.info('update', `drop function [${name}]`)
+			await this.exec('drop function if exists ??', name)
+		}
+
+		/**
+		 * 删除事件
+		 * @param name 事件名称
+		 */
+		public async dropEvent(name: string) {
+			logger.info('update', `drop event [${name}]`)
+			await this.exec('drop event if exists ??', name)
 		}
 
 		/**
@@ -775,23 +1863,48 @@ export namespace dbu {
 		}
 	}
 
+	/**
+	 * 定义表结构（不创建表），用于与数据库中的表结构比较
+	 * @param name 表名称
+	 * @param comment 表注释
+	 */
+	export function define(name: string, comment?: string) {
+		const definitionOnly = () => { throw new Error(`table ${name} is a definition only, use mktbl to create it`) }
+		return new TableMaker(name, definitionOnly, definitionOnly, comment)
+	}
+
 	/**
 	 * 连接到数据库
 	 * @param conf 连接配置
+	 * @param driverOption mysql驱动的其他连接选项
 	 */
-	export function getConnection(conf: IMysqlConnOption) {
-		return new MyConnection(conf)
+	export function getConnection(conf: IMysqlConnOption, driverOption?: mysql.ConnectionConfig) {
+		return new MyConnection(conf, driverOption)
+	}
+
+	/** 版本程序 */
+	type IVersionProgram = (conn: MyConnection) => Promise<void>
+
+	/** 版本信息 */
+	export interface IVersionInfo {
+		/** 版本号 */
+		ver: number
+		/** 版本升级程序 */
+		program: IVersionProgram
+		/** 版本回退程序 */
+		down?: IVersionProgram
 	}
 
-	const versions: Array<{ ver: number, program: (conn: MyConnection) => Promise<void> }> = []
+	const versions: Array<IVersionInfo> = []
 
 	/**
 	 * 添加一个版本
 	 * @param ver 版本号，使用浮点数（小数位占两位），例如3.02
 	 * @param program 版本升级程序
+	 * @param down 版本回退程序，回退到更低版本时执行，用于撤销升级程序所做的修改
 	 */
-	export function version(ver: number, program: (conn: MyConnection) => Promise<void>) {
-		versions.push({ ver, program })
+	export function version(ver: number, program: IVersionProgram, down?: IVersionProgram) {
+		versions.push({ ver, program, down })
 	}
 
 	/**
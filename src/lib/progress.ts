@@ -0,0 +1,165 @@
+import stream from 'stream'
+import { logger } from './logger'
+
+/** 备份或恢复进度 */
+export interface IProgress {
+	/** SQL数据字节数 */
+	sqlBytes: number
+	/** 备份文件字节数（备份时为已写入的字节数，恢复时为已读取的字节数） */
+	fileBytes: number
+	/** 压缩率（备份文件字节数 / SQL数据字节数） */
+	ratio: number
+	/** 当前表 */
+	table: string | null
+	/** 已开始处理的表 */
+	tables: Array<string>
+	/** 已用时间（毫秒） */
+	elapsed: number
+	/** 预计剩余时间（毫秒），无法估计时为null */
+	eta: number | null
+}
+
+/** 进度选项 */
+export interface IProgressOption {
+	/** 估计的总字节数，用于计算剩余时间 */
+	total?: number
+	/** 总字节数对应的数据，sql表示SQL数据，file表示备份文件 */
+	totalOf?: 'sql' | 'file'
+	/** 进度回调 */
+	onProgress?: (progress: IProgress) => void
+}
+
+//输出进度的最小间隔（毫秒）
+const RENDER_INTERVAL = 200
+
+//表名称所在的最大行长度，用于处理跨数据块的行
+const MAX_LINE_LENGTH = 1024
+
+/**
+ * 格式化字节数
+ * @param bytes 字节数
+ */
+export function formatBytes(bytes: number) {
+	const units = ['B', 'KB', 'MB', 'GB', 'TB']
+	let i = 0
+	while (bytes >= 1024 && i < units.length - 1) {
+		bytes /= 1024
+		i++
+	}
+	return `${(i == 0) ? bytes : bytes.toFixed(1)}${units[i]}`
+}
+
+//格式化时间
+function formatDuration(ms: number) {
+	const s = Math.round(ms / 1000)
+	const pad = (n: number) => (n + '').padStart(2, '0')
+	return (s >= 3600) ? `${Math.floor(s / 3600)}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}` : `${pad(Math.floor(s / 60))}:${pad(s % 60)}`
+}
+
+/** 备份、恢复进度，统计字节数、当前表，并在终端当前行输出进度 */
+export class Progress {
+
+	private start = Date.now()
+
+	private sqlBytes = 0
+
+	private fileBytes = 0
+
+	private table: string | null = null
+
+	private tables: Array<string> = []
+
+	private lastRender = 0
+
+	private finished = false
+
+	/**
+	 * @param tag 输出标签
+	 * @param option 进度选项
+	 */
+	constructor(private tag: string, private option: IProgressOption = {}) {
+	}
+
+	/**
+	 * 创建SQL数据统计流，数据原样通过，同时统计字节数并从mysqldump格式的注释中获取当前表
+	 */
+	public meter() {
+		let tail = ''
+		return new stream.Transform({
+			transform: (chunk: Buffer, encoding, callback) => {
+				this.sqlBytes += chunk.length
+				//只在行首查找表名称，保留上一个数据块中不完整的行
+				const text = tail + chunk.toString('latin1')
+				const reg = /^-- (?:Table structure for table|Dumping data for table|Final view structure for view) `((?:[^`]|``)+)`/gm
+				let match: RegExpExecArray | null
+				while (match = reg.exec(text)) this.setTable(Buffer.from(match[1].replace(/``/g, '`'), 'latin1').toString())
+				const eol = text.lastIndexOf('\n')
+				tail = text.slice(eol + 1).slice(0, MAX_LINE_LENGTH)
+				this.update()
+				callback(null, chunk)
+			},
+		})
+	}
+
+	/**
+	 * 增加备份文件字节数
+	 * @param bytes 字节数
+	 */
+	public addFileBytes(bytes: number) {
+		this.fileBytes += bytes
+		this.update()
+	}
+
+	/** 获取当前进度 */
+	public get progress(): IProgress {
+		const elapsed = Date.now() - this.start
+		const done = (this.option.totalOf == 'file') ? this.fileBytes : this.sqlBytes
+		const total = this.option.total
+		return {
+			sqlBytes: this.sqlBytes,
+			fileBytes: this.fileBytes,
+			ratio: this.sqlBytes ? this.fileBytes / this.sqlBytes : 0,
+			table: this.table,
+			tables: [...this.tables],
+			elapsed,
+			eta: (total && done) ? Math.max(0, elapsed * (total - done) / done) : null,
+		}
+	}
+
+	/** 结束进度输出，清除进度行，可以多次调用 */
+	public finish() {
+		if (this.lastRender && !this.finished && this.renderable()) logger.logs('')
+		this.finished = true
+		return this.progress
+	}
+
+	//设置当前表
+	private setTable(table: string) {
+		this.table = table
+		if (!this.tables.includes(table)) this.tables.push(table)
+	}
+
+	//是否在终端当前行输出进度，关闭日志或者输出不是终端（如CI、重定向到文件）时不输出
+	private renderable() {
+		return logger.isShown() && !!process.stdout.isTTY
+	}
+
+	//输出进度，限制输出频率
+	private update() {
+		const now = Date.now()
+		if (this.finished || now - this.lastRender < RENDER_INTERVAL) return
+		this.lastRender = now
+		const progress = this.progress
+		if (this.option.onProgress) this.option.onProgress(progress)
+		if (!this.renderable()) return
+		logger.logs([
+			`[${this.tag}]`,
+			`${formatBytes(progress.sqlBytes)} sql`,
+			`${formatBytes(progress.fileBytes)} file`,
+			`(${(progress.ratio * 100).toFixed(1)}%)`,
+			...progress.table ? [`table ${progress.table}`] : [],
+			formatDuration(progress.elapsed),
+			...(progress.eta !== null) ? [`ETA ${formatDuration(progress.eta)}`] : [],
+		].join(' '))
+	}
+}
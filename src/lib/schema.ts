@@ -0,0 +1,235 @@
+import mysql from 'mysql'
+import { dbu } from './mysql'
+
+type MyConnection = ReturnType<typeof dbu.getConnection>
+
+/** 数据库中的列结构 */
+export interface IColumnSchema {
+	/** 列名称 */
+	name: string
+	/** 基本类型，如int、varchar */
+	type: string
+	/** 类型长度，如11、255、20,2、'a','b' */
+	length: string
+	/** 类型中长度之后的修饰，如unsigned、zerofill */
+	modifiers: string
+	/** 是否非空 */
+	required: boolean
+	/** 是否自增 */
+	inc: boolean
+	/** 默认值，没有默认值时为null */
+	default: string | null
+	/** 默认值是否是表达式（如CURRENT_TIMESTAMP） */
+	defaultExpr: boolean
+	/** 注释 */
+	comment: string
+	/** 排序规则，非字符类型为null */
+	collation: string | null
+	/** 除auto_increment、DEFAULT_GENERATED及生成列之外的额外信息，如on update CURRENT_TIMESTAMP */
+	extra: string
+	/** 生成列的表达式，普通列为null */
+	generated: {
+		/** 生成表达式 */
+		expr: string
+		/** 是否存储生成的值 */
+		stored: boolean
+	} | null
+}
+
+/** 数据库中的索引结构 */
+export interface IIndexSchema {
+	/** 索引名称 */
+	name: string
+	/** 索引类型 */
+	type: 'primary' | 'index' | 'unique' | 'fulltext' | 'spatial'
+	/** 索引列，表达式索引的列为null */
+	columns: Array<string | null>
+	/** 各列的前缀长度，没有前缀时为null */
+	subParts: Array<number | null>
+	/** 各列是否降序 */
+	desc: Array<boolean>
+	/** 是否使用ngram分词器 */
+	ngram: boolean
+	/** 是否不可见 */
+	invisible: boolean
+}
+
+/** 数据库中的外键结构 */
+export interface ILinkSchema {
+	/** 外键名称 */
+	name: string
+	/** 外键列 */
+	columns: Array<string>
+	/** 引用的表 */
+	table: string
+	/** 引用的列 */
+	refColumns: Array<string>
+	/** 更新选项 */
+	update: string
+	/** 删除选项 */
+	delete: string
+}
+
+/** 数据库中的检查约束结构 */
+export interface ICheckSchema {
+	/** 约束名称 */
+	name: string
+	/** 检查表达式 */
+	expr: string
+}
+
+/** 数据库中的表结构 */
+export interface ITableSchema {
+	/** 表名称 */
+	name: string
+	/** 表注释 */
+	comment: string
+	/** 存储引擎 */
+	engine: string
+	/** 表的默认字符集 */
+	charset: string
+	/** 表的默认排序规则 */
+	collation: string
+	/** 建表时指定的行格式，未指定时为null */
+	rowFormat: string | null
+	/** 列 */
+	columns: Array<IColumnSchema>
+	/** 索引，包括主键 */
+	indexes: Array<IIndexSchema>
+	/** 外键 */
+	links: Array<ILinkSchema>
+	/** 检查约束 */
+	checks: Array<ICheckSchema>
+	/** show create table的结果 */
+	createSql: string
+}
+
+/**
+ * 解析列类型
+ * @param columnType information_schema.COLUMNS中的COLUMN_TYPE
+ */
+export function parseColumnType(columnType: string) {
+	const match = /^(\w+)(?:\(((?:'(?:[^']|'')*'|[^)'])*)\))?\s*(.*)$/.exec(columnType.trim())!
+	return { type: match[1].toLowerCase(), length: match[2] || '', modifiers: match[3].trim().toLowerCase() }
+}
+
+/**
+ * 解析enum、set类型的可选值
+ * @param length 类型长度，如'a','b'
+ */
+export function parseEnumValues(length: string) {
+	const values: Array<string> = []
+	const reg = /'((?:[^']|'')*)'/g
+	let match: RegExpExecArray | null
+	while (match = reg.exec(length)) values.push(match[1].replace(/''/g, '\''))
+	return values
+}
+
+/**
+ * 解析列默认值，兼容MariaDB中带引号的默认值
+ * @param value information_schema.COLUMNS中的COLUMN_DEFAULT
+ * @param extra information_schema.COLUMNS中的EXTRA
+ */
+function parseDefault(value: string | null, extra: string) {
+	if (value === null || value === undefined || value == 'NULL') return { default: null, defaultExpr: false }
+	if (/^'.*'$/s.test(value)) return { default: value.slice(1, -1).replace(/''/g, '\''), defaultExpr: false }
+	return { default: value, defaultExpr: /DEFAULT_GENERATED/i.test(extra) || /^current_timestamp/i.test(value) }
+}
+
+/**
+ * 读取数据库中的表结构，不包括视图
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ * @param tables 要读取的表，默认全部表
+ */
+export async function readSchema(conn: MyConnection, database: string, tables?: Array<string>): Promise<Array<ITableSchema>> {
+	const tableRows = await conn.query('select TABLE_NAME, TABLE_COMMENT, TABLE_COLLATION, ENGINE from information_schema.TABLES where TABLE_SCHEMA = ? and TABLE_TYPE = ? order by TABLE_NAME', database, 'BASE TABLE')
+	const columnRows = await conn.query('select * from information_schema.COLUMNS where TABLE_SCHEMA = ? order by TABLE_NAME, ORDINAL_POSITION', database)
+	const indexRows = await conn.query('select * from information_schema.STATISTICS where TABLE_SCHEMA = ? order by TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX', database)
+	const linkRows = await conn.query(`select k.CONSTRAINT_NAME, k.TABLE_NAME, k.COLUMN_NAME, k.REFERENCED_TABLE_NAME, k.REFERENCED_COLUMN_NAME, c.UPDATE_RULE, c.DELETE_RULE from information_schema.KEY_COLUMN_USAGE k join information_schema.REFERENTIAL_CONSTRAINTS c on c.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA and c.CONSTRAINT_NAME = k.CONSTRAINT_NAME and c.TABLE_NAME = k.TABLE_NAME where k.TABLE_SCHEMA = ? order by k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`, database)
+	const result: Array<ITableSchema> = []
+	for (let i = 0; i < tableRows.length; i++) {
+		const name: string = tableRows[i].TABLE_NAME
+		if (tables && !tables.includes(name)) continue
+		const [create] = await conn.query(`show create table ${mysql.escapeId(database)}.${mysql.escapeId(name)}`)
+		const createSql: string = create['Create Table']
+		//列
+		const columns = columnRows.filter(r => r.TABLE_NAME == name).map(r => {
+			const extra: string = r.EXTRA || ''
+			return {
+				name: r.COLUMN_NAME,
+				...parseColumnType(r.COLUMN_TYPE),
+				required: r.IS_NULLABLE == 'NO',
+				inc: /auto_increment/i.test(extra),
+				...parseDefault(r.COLUMN_DEFAULT, extra),
+				comment: r.COLUMN_COMMENT || '',
+				collation: r.COLLATION_NAME || null,
+				extra: extra.replace(/auto_increment|DEFAULT_GENERATED|(VIRTUAL|STORED|PERSISTENT) GENERATED/ig, '').trim(),
+				//MySQL中生成表达式的引号被转义
+				generated: /(VIRTUAL|STORED|PERSISTENT) GENERATED/i.test(extra) ? {
+					expr: (r.GENERATION_EXPRESSION || '').replace(/\\'/g, '\''),
+					stored: /(STORED|PERSISTENT) GENERATED/i.test(extra),
+				} : null,
+			} as IColumnSchema
+		})
+		//索引
+		const indexes: Array<IIndexSchema> = []
+		indexRows.filter(r => r.TABLE_NAME == name).forEach(r => {
+			let index = indexes.find(idx => idx.name == r.INDEX_NAME)
+			if (!index) {
+				const type = (r.INDEX_NAME == 'PRIMARY') ? 'primary' : (r.INDEX_TYPE == 'FULLTEXT') ? 'fulltext' : (r.INDEX_TYPE == 'SPATIAL') ? 'spatial' : (r.NON_UNIQUE == 0) ? 'unique' : 'index'
+				const ngram = (type == 'fulltext') && new RegExp(`KEY ${mysql.escapeId(r.INDEX_NAME).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')} \\(.*WITH PARSER \`ngram\``).test(createSql)
+				index = { name: r.INDEX_NAME, type, columns: [], subParts: [], desc: [], ngram, invisible: r.IS_VISIBLE == 'NO' }
+				indexes.push(index)
+			}
+			index.columns.push(r.COLUMN_NAME)
+			index.subParts.push((r.SUB_PART === null || r.SUB_PART === undefined) ? null : parseInt(r.SUB_PART))
+			index.desc.push(r.COLLATION == 'D')
+		})
+		//外键
+		const links: Array<ILinkSchema> = []
+		linkRows.filter(r => r.TABLE_NAME == name).forEach(r => {
+			let link = links.find(l => l.name == r.CONSTRAINT_NAME)
+			if (!link) {
+				link = { name: r.CONSTRAINT_NAME, columns: [], table: r.REFERENCED_TABLE_NAME, refColumns: [], update: r.UPDATE_RULE.toLowerCase(), delete: r.DELETE_RULE.toLowerCase() }
+				links.push(link)
+			}
+			link.columns.push(r.COLUMN_NAME)
+			link.refColumns.push(r.REFERENCED_COLUMN_NAME)
+		})
+		//检查约束，information_schema.CHECK_CONSTRAINTS只在MySQL 8.0.16以上存在，因此从建表语句中读取
+		const checks: Array<ICheckSchema> = []
+		createSql.split('\n').forEach(line => {
+			const match = /^CONSTRAINT `((?:[^`]|``)+)` CHECK \((.*)\)( \/\*!\d+ NOT ENFORCED \*\/)?$/.exec(line.trim().replace(/,$/, ''))
+			if (match) checks.push({ name: match[1].replace(/``/g, '`'), expr: match[2] })
+		})
+		//表选项所在的行
+		const options = createSql.split('\n').find(line => line.startsWith(') ')) || ''
+		const charset = /CHARSET=(\w+)/i.exec(options)
+		const rowFormat = /ROW_FORMAT=(\w+)/i.exec(options)
+		result.push({
+			name,
+			comment: tableRows[i].TABLE_COMMENT || '',
+			engine: tableRows[i].ENGINE || '',
+			charset: charset ? charset[1] : '',
+			collation: tableRows[i].TABLE_COLLATION,
+			rowFormat: rowFormat ? rowFormat[1].toLowerCase() : null,
+			columns, indexes, links, checks, createSql,
+		})
+	}
+	return result
+}
+
+/**
+ * 按外键依赖关系排序，被引用的表排在前面；存在循环引用时，剩余的表按名称排列
+ * @param tables 表结构
+ */
+export function sortByDependency(tables: Array<ITableSchema>) {
+	const result: Array<ITableSchema> = []
+	const rest = [...tables]
+	while (rest.length) {
+		const index = rest.findIndex(t => t.links.every(l => l.table == t.name || !rest.some(r => r.name == l.table)))
+		result.push(...rest.splice((index < 0) ? 0 : index, 1))
+	}
+	return result
+}
@@ -1,6 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 import stream from 'stream'
+import crypto from 'crypto'
+import { StringDecoder } from 'string_decoder'
 
 /**
  * 递归创建目录
@@ -14,7 +16,7 @@ export function mkdirp(dir: string) {
 }
 
 /**
- * 创建加解密流
+ * 创建加解密流（旧版备份文件使用的异或加密，仅用于读取旧版备份文件）
  * @param password 密码
  * @returns 加解密流
  */
@@ -37,4 +39,124 @@ export function createCryptStream(password?: Buffer | string | null) {
 			callback(null, buffer)
 		}
 	})
-}
\ No newline at end of file
+}
+
+/**
+ * 使用scrypt从密码生成AES-256密钥
+ * @param password 密码
+ * @param salt 盐
+ */
+export function deriveKey(password: Buffer | string, salt: Buffer) {
+	return crypto.scryptSync(password, salt, 32)
+}
+
+/**
+ * 创建AES-256-GCM加密流，加密完成后需要使用getAuthTag()获取认证标签
+ * @param password 密码
+ * @param salt 盐
+ * @param iv 初始向量
+ */
+export function createEncryptStream(password: Buffer | string, salt: Buffer, iv: Buffer) {
+	return crypto.createCipheriv('aes-256-gcm', deriveKey(password, salt), iv)
+}
+
+/**
+ * 创建AES-256-GCM解密流，认证标签校验失败时流会触发error事件
+ * @param password 密码
+ * @param salt 盐
+ * @param iv 初始向量
+ * @param authTag 认证标签
+ */
+export function createDecryptStream(password: Buffer | string, salt: Buffer, iv: Buffer, authTag: Buffer) {
+	const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(password, salt), iv)
+	decipher.setAuthTag(authTag)
+	return decipher
+}
+
+/**
+ * 将通配符（*和?）转换为正则表达式
+ * @param pattern 通配符
+ */
+export function globToRegExp(pattern: string) {
+	const str = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+	return new RegExp(`^${str}$`)
+}
+
+/**
+ * 按照通配符过滤表名称
+ * @param tables 表名称列表
+ * @param include 要包含的表，不给定则包含全部
+ * @param exclude 要排除的表
+ */
+export function filterTables(tables: Array<string>, include?: Array<string>, exclude?: Array<string>) {
+	const includes = include ? include.map(p => globToRegExp(p)) : null
+	const excludes = (exclude || []).map(p => globToRegExp(p))
+	return tables.filter(t => (!includes || includes.some(r => r.test(t))) && !excludes.some(r => r.test(t)))
+}
+
+/** 备份输出过滤选项 */
+export interface IDumpFilterOption {
+	/** 不保留存储过程及函数 */
+	skipRoutines?: boolean
+	/** 不保留事件，给定函数时被去掉的事件区块交给此函数 */
+	skipEvents?: boolean | ((text: string) => void)
+}
+
+/**
+ * 创建mysqldump输出的表过滤流，只保留给定表（及视图）的结构和数据，其他语句（如字符集设置）保持不变
+ * @param accept 判断表是否保留
+ * @param option 过滤选项
+ */
+export function createTableFilterStream(accept: (table: string) => boolean, option?: IDumpFilterOption) {
+	const { skipRoutines, skipEvents } = option || {}
+	//当前所在的表，null表示不在表的区块中
+	let current: string | null = null
+	//当前是否在事件或存储过程的区块中
+	let section: 'events' | 'routines' | null = null
+	let rest = ''
+	const decoder = new StringDecoder('utf8')
+	const filter = (line: string) => {
+		const match = line.match(/^-- (?:Table structure for table|Dumping data for table|Temporary (?:view|table) structure for view|Final view structure for view) `(.+)`$/)
+		const block = line.match(/^-- Dumping (events|routines) for database/)
+		if (match) {
+			current = match[1].replace(/``/g, '`')
+			section = null
+		}
+		else if (block) {
+			current = null
+			section = block[1] as 'events' | 'routines'
+		}
+		else if (/^-- Dump completed/.test(line)) current = section = null
+		if (section == 'events' && skipEvents) {
+			if (typeof skipEvents == 'function') skipEvents(line + '\n')
+			return ''
+		}
+		if (section == 'routines' && skipRoutines) return ''
+		return (current === null || accept(current)) ? line + '\n' : ''
+	}
+	return new stream.Transform({
+		transform(chunk, encoding, callback) {
+			const lines = (rest + decoder.write(chunk)).split('\n')
+			rest = lines.pop()!
+			callback(null, lines.map(filter).join(''))
+		},
+		flush(callback) {
+			rest += decoder.end()
+			callback(null, rest ? filter(rest).replace(/\n$/, '') : '')
+		}
+	})
+}
+
+//MySQL中索引、约束等名称的最大长度
+export const MAX_NAME_LENGTH = 64
+
+/**
+ * 生成索引名称，由列名称使用下划线连接，超过长度限制时截断并附加哈希值，保证同样的列总是得到同样的名称
+ * @param columns 列名称
+ */
+export function keyName(columns: string | Array<string>) {
+	const name = (typeof columns == 'string') ? columns : columns.join('_')
+	if (name.length <= MAX_NAME_LENGTH) return name
+	const hash = crypto.createHash('md5').update(name).digest('hex').substring(0, 8)
+	return `${name.substring(0, MAX_NAME_LENGTH - hash.length - 1)}_${hash}`
+}
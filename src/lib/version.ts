@@ -0,0 +1,61 @@
+import path from 'path'
+import fs from 'fs'
+import crypto from 'crypto'
+import { dbu } from './mysql'
+
+/**
+ * 加载版本文件，并按版本号升序排列
+ * @param versionDir 版本文件存放位置
+ */
+export function loadVersions(versionDir: string): Array<dbu.IVersionInfo> {
+	fs.readdirSync(versionDir).forEach(file => {
+		const ext = path.extname(file)
+		if (ext == '.js' || ext == '.ts') require(path.join(versionDir, file))
+	})
+	const versions = dbu.getVersions().sort((v1, v2) => {
+		if (v1.ver == v2.ver) return 0
+		return (v1.ver > v2.ver) ? 1 : -1
+	})
+	const vdict: { [i: number]: number } = {}
+	versions.forEach(vi => {
+		vi.ver = parseFloat(vi.ver.toFixed(2))
+		if (vi.ver <= 0) throw new Error('version cannot <0')
+		if (vdict[vi.ver]) throw new Error(`got same version ${vi.ver} in versions`)
+		vdict[vi.ver] = vi.ver
+	})
+	if (!versions.length) throw new Error('no version found')
+	return versions
+}
+
+/**
+ * 计算版本程序的校验和
+ * @param program 版本程序
+ */
+export function checksumOf(program: Function) {
+	return crypto.createHash('sha256').update(program.toString()).digest('hex')
+}
+
+/**
+ * 创建版本表_ver
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ */
+export async function createVersionTable(conn: ReturnType<typeof dbu.getConnection>, database: string) {
+	await conn.mktbl(`${database}._ver`)
+		.column('ver', 'decimal', { length: '20,2', comment: '版本号' })
+		.column('ctime', 'datetime', { comment: '版本创建时间' })
+		.column('checksum', 'varchar', { length: 64, comment: '版本程序校验和' })
+		.primary('ver')
+		.index('ctime')
+		.done()
+}
+
+/**
+ * 检测数据库中是否存在版本表_ver
+ * @param conn 数据库连接
+ * @param database 数据库名称
+ */
+export async function hasVersionTable(conn: ReturnType<typeof dbu.getConnection>, database: string) {
+	const rows = await conn.query('select TABLE_NAME from information_schema.TABLES where TABLE_SCHEMA = ? and TABLE_NAME = ?', database, '_ver')
+	return rows.length > 0
+}